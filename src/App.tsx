@@ -1,9 +1,9 @@
-import { BasicTable } from "./components/BasicTable";
+import { PersonTable } from "./components/PersonTable";
 
 function App() {
   return (
     <div>
-      <BasicTable />
+      <PersonTable />
     </div>
   );
 }
@@ -1,611 +1,1700 @@
+import { DndContext } from "@dnd-kit/core";
 import {
-  closestCenter,
-  DndContext,
-  KeyboardSensor,
-  MouseSensor,
-  PointerSensor,
-  TouchSensor,
-  useSensor,
-  useSensors,
-  type DragEndEvent,
-  type Modifier,
-  type UniqueIdentifier,
-} from "@dnd-kit/core";
-import {
-  restrictToHorizontalAxis,
-  restrictToVerticalAxis,
-} from "@dnd-kit/modifiers";
-import {
-  arrayMove,
   horizontalListSortingStrategy,
   SortableContext,
-  useSortable,
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
-import { CSS } from "@dnd-kit/utilities";
 import {
   flexRender,
   getCoreRowModel,
+  getExpandedRowModel,
+  getFilteredRowModel,
+  getGroupedRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
   useReactTable,
   type ColumnDef,
-  type Header,
+  type ColumnFiltersState,
+  type ColumnPinningState,
+  type ColumnResizeMode,
+  type ColumnSizingState,
+  type ExpandedState,
+  type GroupingState,
+  type PaginationState,
   type Row,
+  type RowSelectionState,
+  type SortingState,
+  type Table,
+  type VisibilityState,
+  functionalUpdate,
 } from "@tanstack/react-table";
-import React, { type CSSProperties, type HTMLProps } from "react";
-import { makeData, type Person } from "./fixtures/makeData";
-import dragHandleIcon from "/public/icons8-drag-handle-30.png";
-
-// 📌 Column 드래그 헤더
-const DraggableTableHeader = ({
-  header,
-  onHeaderClick,
-}: {
-  header: Header<Person, unknown>;
-  onHeaderClick: (e: React.MouseEvent, columnId: string) => void;
-}) => {
-  const id = `col-${header.column.id}`;
-  const { attributes, listeners, setNodeRef, transform, isDragging } =
-    useSortable({ id });
-
-  const style: CSSProperties = {
-    transform: CSS.Translate.toString(transform),
-    transition: "width transform 0.2s ease-in-out",
-    opacity: isDragging ? 0.33 : 1,
-    width: header.column.getSize(),
-    position: "relative",
-  };
+import { useVirtualizer } from "@tanstack/react-virtual";
+import React from "react";
+import { useControllableState } from "../hooks/useControllableState";
+import { useDataSourcePage } from "../hooks/useDataSourcePage";
+import {
+  createCommand,
+  stateChange,
+  useHistory,
+  type HistoryCommand,
+} from "../hooks/useHistory";
+import { useColumnDialogs } from "../hooks/useColumnDialogs";
+import type { MenuAnchor } from "../hooks/useMenuPosition";
+import {
+  useDragState,
+  useTableDragAndDrop,
+} from "../hooks/useTableDragAndDrop";
+import {
+  isRangeCell,
+  isSameCell,
+  useCellRangeClipboard,
+} from "../hooks/useCellRangeClipboard";
+import { useSearchNavigation } from "../hooks/useSearchNavigation";
+import { useTableImport } from "../hooks/useTableImport";
+import { useTablePersistence } from "../hooks/useTablePersistence";
+import { useTableViews } from "../hooks/useTableViews";
+import {
+  COLUMN_DND_PREFIX,
+  DRAG_HANDLE_COLUMN_ID,
+  HEADER_ROW_ID,
+  KEYBOARD_PAGE_SIZE,
+  ROW_DND_PREFIX,
+} from "./constants";
+import { ColumnConfigDialog } from "./ColumnConfigDialog";
+import { CellValue } from "./CellValue";
+import type {
+  AggregationChoice,
+  CellEdit,
+  CellPosition,
+  ColumnAggregationState,
+  DataSource,
+  GlobalSearchValue,
+  TableView,
+} from "./types";
+import { DraggableRow } from "./DraggableRow";
+import { DraggableTableHeader } from "./DraggableTableHeader";
+import { TableDragOverlay } from "./DragPreview";
+import { ImportDialog } from "./ImportDialog";
+import { FormattingRulesDialog } from "./FormattingRulesDialog";
+import { IndeterminateCheckbox } from "./IndeterminateCheckbox";
+import { Menu } from "./Menu";
+import { PaginationFooter } from "./PaginationFooter";
+import { PasteRowsDialog } from "./PasteRowsDialog";
+import { RowContextMenu } from "./RowContextMenu";
+import { RowDetailDrawer } from "./RowDetailDrawer";
+import { SelectionBanner } from "./SelectionBanner";
+import { TableToolbar } from "./TableToolbar";
+import { Toast } from "./Toast";
+import { TotalsFooter } from "./TotalsFooter";
+import { formatAggregatedValue, withAggregationFn } from "./utils/aggregation";
+import {
+  getColumnDataKey,
+  getColumnDefId,
+  getColumnHeaderLabel,
+  getRowLabel,
+  setRowValue,
+} from "./utils/columnDef";
+import { getColumnMenuItems } from "./utils/columnMenu";
+import {
+  getDisplayedLeafColumns,
+  getPinningStyles,
+} from "./utils/columnPinning";
+import { filterFns, withDefaultFilterFn } from "./utils/filterFns";
+import {
+  findCellElement,
+  getCellFocusProps,
+  getCellPositionFromElement,
+  getNextCellPosition,
+} from "./utils/keyboardNavigation";
+import { sortingFns } from "./utils/sortingFns";
+import { restoreColumns } from "./utils/tablePersistence";
+import {
+  filterTree,
+  findTreePath,
+  insertTreeRows,
+  moveTreeRowToEdge,
+  updateTreeRow,
+} from "./utils/tree";
 
-  return (
-    <th
-      ref={setNodeRef}
-      style={style}
-      colSpan={header.colSpan}
-      className="hover:bg-gray-100"
-    >
-      {!header.isPlaceholder && (
-        <div
-          {...attributes}
-          {...listeners}
-          onClick={(e) => onHeaderClick(e, id)} // 'id' (col-컬럼ID)를 넘겨주도록 변경
-        >
-          {flexRender(header.column.columnDef.header, header.getContext())}
-        </div>
-      )}
-    </th>
-  );
+// 하위 행 (subRows) - getSubRows 를 넘기면 펼치기/접기 가능한 트리로 표시된다.
+// 하위 행을 옮기거나 지우면 그 부모 행을 새 하위 행 배열로 다시 만들어야 하므로 setSubRows 도 함께 넘긴다.
+type BasicTableTreeProps<TData> =
+  | { getSubRows?: undefined; setSubRows?: undefined }
+  | {
+      getSubRows: (row: TData) => TData[] | undefined;
+      setSubRows: (row: TData, subRows: TData[] | undefined) => TData;
+    };
+
+export type BasicTableProps<TData> = BasicTableTreeProps<TData> & {
+  // 행 데이터: data 를 넘기면 controlled, defaultData 만 넘기면 uncontrolled
+  data?: TData[];
+  defaultData?: TData[];
+  onDataChange?: (data: TData[]) => void;
+  // 컬럼 정의 (드래그 핸들 컬럼은 BasicTable 이 앞에 붙인다)
+  // Reset layout 과 저장된 레이아웃 복원은 defaultColumns 를 기준으로 한다.
+  columns?: ColumnDef<TData>[];
+  defaultColumns?: ColumnDef<TData>[];
+  onColumnsChange?: (columns: ColumnDef<TData>[]) => void;
+  // 행 선택 상태
+  rowSelection?: RowSelectionState;
+  defaultRowSelection?: RowSelectionState;
+  onRowSelectionChange?: (rowSelection: RowSelectionState) => void;
+  // 정렬 상태 (Shift + 클릭으로 다중 정렬)
+  sorting?: SortingState;
+  defaultSorting?: SortingState;
+  onSortingChange?: (sorting: SortingState) => void;
+  // 컬럼 필터 상태 (필터 UI 는 각 컬럼의 meta.filterVariant 를 따른다)
+  columnFilters?: ColumnFiltersState;
+  defaultColumnFilters?: ColumnFiltersState;
+  onColumnFiltersChange?: (columnFilters: ColumnFiltersState) => void;
+  // 툴바 검색창의 전체 검색어 - 화면에 보이는 모든 컬럼에서 찾는다.
+  globalFilter?: string;
+  defaultGlobalFilter?: string;
+  onGlobalFilterChange?: (globalFilter: string) => void;
+  // 컬럼 너비
+  columnSizing?: ColumnSizingState;
+  defaultColumnSizing?: ColumnSizingState;
+  onColumnSizingChange?: (columnSizing: ColumnSizingState) => void;
+  // onChange: 드래그하는 동안 바로 너비 반영 / onEnd: 놓을 때 반영
+  columnResizeMode?: ColumnResizeMode;
+  // 왼쪽 / 오른쪽에 고정(sticky)할 컬럼 id (드래그 핸들 컬럼은 항상 왼쪽에 고정되므로 넣지 않는다)
+  columnPinning?: ColumnPinningState;
+  defaultColumnPinning?: ColumnPinningState;
+  onColumnPinningChange?: (columnPinning: ColumnPinningState) => void;
+  // 컬럼 표시/숨김 (툴바 Columns 패널) - 숨긴 컬럼도 값과 정의는 그대로 남는다.
+  columnVisibility?: VisibilityState;
+  defaultColumnVisibility?: VisibilityState;
+  onColumnVisibilityChange?: (columnVisibility: VisibilityState) => void;
+  // 값이 같은 행끼리 묶을 컬럼 id (헤더 메뉴 "이 컬럼으로 그룹") - 서버 데이터 모드에서는 쓰지 않는다.
+  grouping?: GroupingState;
+  defaultGrouping?: GroupingState;
+  onGroupingChange?: (grouping: GroupingState) => void;
+  // 숫자 컬럼의 집계 (그룹 행과 합계 행에 표시) - 없는 컬럼은 ColumnDef 의 aggregationFn 을 쓴다.
+  columnAggregations?: ColumnAggregationState;
+  defaultColumnAggregations?: ColumnAggregationState;
+  onColumnAggregationsChange?: (
+    columnAggregations: ColumnAggregationState
+  ) => void;
+  // 이름 붙여 저장한 보기 (툴바 Views 메뉴)
+  views?: TableView[];
+  defaultViews?: TableView[];
+  onViewsChange?: (views: TableView[]) => void;
+  // 넘기면 서버 데이터 모드: data 대신 데이터 소스에서 현재 페이지를 불러오고,
+  // 정렬/필터/페이지 나누기를 데이터 소스에 맡긴다.
+  // 이 모드에서는 행 편집·추가·삭제·이동·가져오기를 제공하지 않는다.
+  dataSource?: DataSource<TData>;
+  // true 면 가상화된 긴 목록 대신 페이지로 나눠 보여준다. (서버 데이터 모드는 항상 페이지로 나눈다)
+  enablePagination?: boolean;
+  // 페이지 상태 (enablePagination 또는 서버 데이터 모드)
+  pagination?: PaginationState;
+  defaultPagination?: PaginationState;
+  onPaginationChange?: (pagination: PaginationState) => void;
+  // 넘기면 레이아웃과 데이터를 이 키로 localStorage 에 저장하고 다음 방문 때 복원한다.
+  storageKey?: string;
+  // 스크롤 영역 최대 높이(px) - 이 안에서 보이는 행만 렌더링한다.
+  maxHeight?: number;
+  // 되돌리기(Ctrl+Z) 히스토리에 보관할 최대 변경 수
+  historyLimit?: number;
+  // 셀 편집이 data 에 반영된 뒤 호출된다.
+  onCellEdit?: (edit: CellEdit) => void;
+  expanded?: ExpandedState;
+  defaultExpanded?: ExpandedState;
+  onExpandedChange?: (expanded: ExpandedState) => void;
+  // 행의 고유 id (트리라면 모든 깊이에서 고유해야 한다) (드래그, 선택, 삭제에 사용)
+  getRowId: (row: TData, index: number) => string;
+  // 넘기면 툴바에 Add Row 버튼이 생기고, 행 메뉴에서 위 / 아래에 행을 넣을 수 있다.
+  createRow?: () => TData;
+  // 넘기면 행 메뉴에 복제가 생긴다. 새 id 를 붙인 복사본을 돌려줘야 한다. (하위 행도 새 id 로)
+  duplicateRow?: (row: TData) => TData;
+  // 넘기면 툴바에 Import 버튼이 생기고 CSV / JSON 파일을 끌어다 놓을 수 있다.
+  // 가져온 값(데이터 키 → 값)으로 행을 만든다. 행 id 는 여기서 정해야 하며,
+  // 원본 레코드(record)에 id 필드가 있으면 그대로 쓰는 식으로 안정적으로 유지할 수 있다.
+  // usedRowIds: 가져온 뒤에도 남는 행과 이번에 앞서 만든 행의 id (겹치면 새 id 를 붙인다)
+  createImportedRow?: (
+    values: Record<string, unknown>,
+    record: Record<string, unknown>,
+    usedRowIds: ReadonlySet<string>
+  ) => TData;
+  // Export 파일 이름 (확장자 제외)
+  exportFileName?: string;
+  // 툴바 앞쪽에 붙일 추가 버튼들 (예: 데이터 재생성)
+  toolbar?: React.ReactNode;
 };
 
-// 📌 Row 드래그
-const DraggableRow = ({ row }: { row: Row<Person> }) => {
-  const id = `row-${row.original.userId}`; // prefix 유지!
-  const {
-    attributes,
-    listeners,
-    setNodeRef,
-    transform,
-    transition,
-    isDragging,
-  } = useSortable({ id });
-
-  const style: CSSProperties = {
-    transform: CSS.Transform.toString(transform),
-    transition,
-    opacity: isDragging ? 0.33 : 1,
-    zIndex: isDragging ? 1 : 0,
-    position: "relative",
-  };
+// 컬럼 너비 기본 범위 (px)
+const MIN_COLUMN_SIZE = 40;
+const MAX_COLUMN_SIZE = 800;
+// 자동 맞춤 시 셀 패딩 + 정렬 표시 등의 여유 (px)
+const AUTO_FIT_PADDING = 16;
 
-  return (
-    <tr ref={setNodeRef} style={style}>
-      {row.getVisibleCells().map((cell) => {
-        const isHandle = cell.column.id === "drag-handle";
-        return (
-          <td key={cell.id} style={{ width: cell.column.getSize() }}>
-            {isHandle ? (
-              <div className="flex justify-end items-center gap-2">
-                <button {...attributes} {...listeners}>
-                  <img src={dragHandleIcon} className="h-[13px] w-[13px]" />
-                </button>
-                {flexRender(cell.column.columnDef.cell, cell.getContext())}
-              </div>
-            ) : (
-              flexRender(cell.column.columnDef.cell, cell.getContext())
-            )}
-          </td>
-        );
-      })}
-    </tr>
+// 헤더를 그리는 고정 영역 순서 (column.getIsPinned() 값)
+const COLUMN_REGIONS = ["left", false, "right"] as const;
+
+// 가상화 전 행 높이 추정값 (실제 높이는 measureElement 로 측정)
+const ESTIMATED_ROW_HEIGHT = 33;
+
+// 📌 전체 Table 컴포넌트
+export const BasicTable = <TData,>({
+  data: dataProp,
+  defaultData = [],
+  onDataChange,
+  columns: columnsProp,
+  defaultColumns = [],
+  onColumnsChange,
+  rowSelection: rowSelectionProp,
+  defaultRowSelection = {},
+  onRowSelectionChange,
+  sorting: sortingProp,
+  defaultSorting = [],
+  onSortingChange,
+  columnFilters: columnFiltersProp,
+  defaultColumnFilters = [],
+  onColumnFiltersChange,
+  globalFilter: globalFilterProp,
+  defaultGlobalFilter = "",
+  onGlobalFilterChange,
+  columnSizing: columnSizingProp,
+  defaultColumnSizing = {},
+  onColumnSizingChange,
+  columnResizeMode = "onChange",
+  columnPinning: columnPinningProp,
+  defaultColumnPinning = {},
+  onColumnPinningChange,
+  columnVisibility: columnVisibilityProp,
+  defaultColumnVisibility = {},
+  onColumnVisibilityChange,
+  grouping: groupingProp,
+  defaultGrouping = [],
+  onGroupingChange,
+  columnAggregations: columnAggregationsProp,
+  defaultColumnAggregations = {},
+  onColumnAggregationsChange,
+  views: viewsProp,
+  defaultViews = [],
+  onViewsChange,
+  dataSource,
+  enablePagination = false,
+  pagination: paginationProp,
+  defaultPagination = { pageIndex: 0, pageSize: 20 },
+  onPaginationChange,
+  storageKey,
+  maxHeight = 600,
+  historyLimit = 100,
+  onCellEdit,
+  getSubRows,
+  setSubRows,
+  expanded: expandedProp,
+  defaultExpanded = {},
+  onExpandedChange,
+  getRowId,
+  createRow,
+  duplicateRow,
+  createImportedRow,
+  exportFileName,
+  toolbar,
+}: BasicTableProps<TData>) => {
+  const [data, setDataState] = useControllableState({
+    value: dataProp,
+    defaultValue: defaultData,
+    onChange: onDataChange,
+  });
+  // 테이블 안에서 마지막으로 바꾼 data - controlled data 가 이와 다르면 부모가 바꾼 것이다.
+  const ownDataRef = React.useRef(data);
+  const setData = React.useCallback(
+    (next: TData[]) => {
+      ownDataRef.current = next;
+      setDataState(next);
+    },
+    [setDataState]
   );
-};
+  const [dynamicColumns, setDynamicColumns] = useControllableState({
+    value: columnsProp,
+    defaultValue: defaultColumns,
+    onChange: onColumnsChange,
+  });
+  const [rowSelection, setRowSelection] = useControllableState({
+    value: rowSelectionProp,
+    defaultValue: defaultRowSelection,
+    onChange: onRowSelectionChange,
+  });
+  const [sorting, setSorting] = useControllableState({
+    value: sortingProp,
+    defaultValue: defaultSorting,
+    onChange: onSortingChange,
+  });
+  const [columnFilters, setColumnFilters] = useControllableState({
+    value: columnFiltersProp,
+    defaultValue: defaultColumnFilters,
+    onChange: onColumnFiltersChange,
+  });
+  const [globalFilter, setGlobalFilter] = useControllableState({
+    value: globalFilterProp,
+    defaultValue: defaultGlobalFilter,
+    onChange: onGlobalFilterChange,
+  });
+  const [expanded, setExpanded] = useControllableState({
+    value: expandedProp,
+    defaultValue: defaultExpanded,
+    onChange: onExpandedChange,
+  });
+  const isTree = !!getSubRows;
+  const isServerMode = !!dataSource;
+  const isPaginated = enablePagination || isServerMode;
+  const treeAccessors = { getRowId, getSubRows, setSubRows };
 
-const IndeterminateCheckbox = ({
-  indeterminate,
-  className = "",
-  ...rest
-}: { indeterminate?: boolean } & HTMLProps<HTMLInputElement>) => {
-  const ref = React.useRef<HTMLInputElement>(null!);
+  const [columnSizing, setColumnSizing] = useControllableState({
+    value: columnSizingProp,
+    defaultValue: defaultColumnSizing,
+    onChange: onColumnSizingChange,
+  });
 
-  React.useEffect(() => {
-    if (typeof indeterminate === "boolean") {
-      ref.current.indeterminate = !rest.checked && indeterminate;
-    }
-  }, [ref, indeterminate]);
+  const [columnPinning, setColumnPinning] = useControllableState({
+    value: columnPinningProp,
+    defaultValue: defaultColumnPinning,
+    onChange: onColumnPinningChange,
+  });
+  const [columnVisibility, setColumnVisibility] = useControllableState({
+    value: columnVisibilityProp,
+    defaultValue: defaultColumnVisibility,
+    onChange: onColumnVisibilityChange,
+  });
+  const [grouping, setGrouping] = useControllableState({
+    value: groupingProp,
+    defaultValue: defaultGrouping,
+    onChange: onGroupingChange,
+  });
+  const [columnAggregations, setColumnAggregations] = useControllableState({
+    value: columnAggregationsProp,
+    defaultValue: defaultColumnAggregations,
+    onChange: onColumnAggregationsChange,
+  });
+  // 서버 데이터 모드에서는 현재 페이지만 있으므로 묶지 않는다.
+  const isGrouped = grouping.length > 0 && !isServerMode;
 
-  return (
-    <input
-      type="checkbox"
-      ref={ref}
-      className={className + " cursor-pointer"}
-      {...rest}
-    />
+  const [views, setViews] = useControllableState({
+    value: viewsProp,
+    defaultValue: defaultViews,
+    onChange: onViewsChange,
+  });
+  // 마지막으로 적용하거나 만든 보기 (레이아웃을 바꿔도 그대로 두고, 덮어쓰기 대상으로 쓴다)
+  const [activeViewId, setActiveViewId] = React.useState<string | null>(null);
+
+  // 드래그 핸들(선택) 컬럼은 항상 왼쪽 맨 앞에 고정한다.
+  const tableColumnPinning = React.useMemo(
+    () => ({
+      left: [
+        DRAG_HANDLE_COLUMN_ID,
+        ...(columnPinning.left ?? []).filter(
+          (id) => id !== DRAG_HANDLE_COLUMN_ID
+        ),
+      ],
+      right: columnPinning.right ?? [],
+    }),
+    [columnPinning]
   );
-};
 
-// 📌 전체 Table 컴포넌트
-export const BasicTable = () => {
-  const [data, setData] = React.useState(() => makeData(20));
-  const [dynamicColumns, setDynamicColumns] = React.useState<
-    ColumnDef<Person>[]
-  >([
-    { accessorKey: "firstName", id: "firstName", header: "First Name" },
-    { accessorKey: "lastName", id: "lastName", header: "Last Name" },
-    { accessorKey: "age", id: "age", header: "Age" },
-    { accessorKey: "visits", id: "visits", header: "Visits" },
-    { accessorKey: "status", id: "status", header: "Status" },
-    { accessorKey: "progress", id: "progress", header: "Profile Progress" },
-  ]);
-  const [rowSelection, setRowSelection] = React.useState({});
-
-  // 첫 번째 팝오버 (속성 삭제, 정렬 버튼)
-  const [showPopover, setShowPopover] = React.useState(false);
-  const [popoverPos, setPopoverPos] = React.useState<{
-    top: number;
-    left: number;
-  }>({ top: 0, left: 0 });
-  const [targetColumnId, setTargetColumnId] = React.useState<string | null>(
+  // 📌 되돌릴 수 있는 변경은 모두 history.execute 로 실행한다.
+  const history = useHistory(historyLimit);
+  const { undo, redo, clear: clearHistory } = history;
+
+  // 부모가 data 를 바꾸면 (예: 데이터 재생성) 이전 command 의 스냅샷으로 되돌리면 바뀐 행을 잃으므로 히스토리를 비운다.
+  React.useEffect(() => {
+    if (data === ownDataRef.current) return;
+    ownDataRef.current = data;
+    clearHistory();
+  }, [data, clearHistory]);
+  // command 가 있으면 그 변경이 아직 마지막일 때만 토스트에 Undo 를 보여준다.
+  const [toast, setToast] = React.useState<{
+    message: string;
+    command?: HistoryCommand;
+  } | null>(null);
+
+  useTablePersistence({
+    storageKey,
+    data,
+    columns: dynamicColumns,
+    columnSizing,
+    columnPinning,
+    columnVisibility,
+    grouping,
+    columnAggregations,
+    sorting,
+    columnFilters,
+    rowSelection,
+    views,
+    activeViewId,
+    onRestore: (saved) => {
+      if (saved.data) setData(saved.data);
+      setDynamicColumns(
+        restoreColumns(saved.columns, saved.columnOrder, defaultColumns)
+      );
+      setColumnSizing(saved.columnSizing);
+      setColumnPinning(saved.columnPinning);
+      setColumnVisibility(saved.columnVisibility);
+      setGrouping(saved.grouping);
+      setColumnAggregations(saved.columnAggregations);
+      setViews(saved.views);
+      setActiveViewId(saved.activeViewId);
+      setSorting(saved.sorting);
+      setColumnFilters(saved.columnFilters);
+      setRowSelection(saved.rowSelection);
+    },
+    onError: (message) => setToast({ message }),
+  });
+
+  // Ctrl+Z 되돌리기, Ctrl+Shift+Z / Ctrl+Y 다시하기
+  // (입력 중일 때는 브라우저 기본 동작에 맡긴다)
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (
+        target.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+      ) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  // 📌 컬럼 구성, 너비, 정렬, 필터를 처음 상태로 (행 데이터는 유지)
+  const resetLayout = () => {
+    history.execute(
+      createCommand(
+        "레이아웃 초기화",
+        stateChange(setDynamicColumns, dynamicColumns, defaultColumns),
+        stateChange(setColumnSizing, columnSizing, {}),
+        stateChange(setColumnPinning, columnPinning, {}),
+        stateChange(setColumnVisibility, columnVisibility, {}),
+        stateChange(setGrouping, grouping, []),
+        stateChange(setColumnAggregations, columnAggregations, {}),
+        stateChange(setSorting, sorting, []),
+        stateChange(setColumnFilters, columnFilters, []),
+        stateChange(setActiveViewId, activeViewId, null)
+      )
+    );
+  };
+
+  // 편집 중인 셀 (한 번에 하나)
+  const [editingCell, setEditingCell] = React.useState<CellPosition | null>(
     null
   );
 
-  // 두 번째 팝오버 (정렬 옵션)
-  const [showSortPopover, setShowSortPopover] = React.useState(false);
-  const [sortPopoverPos, setSortPopoverPos] = React.useState<{
-    top: number;
-    left: number;
-  }>({ top: 0, left: 0 });
-  const [sortColumnId, setSortColumnId] = React.useState<string | null>(null);
-
-  const dragHandleColumn: ColumnDef<Person> = {
-    id: "drag-handle",
-    header: ({ table }) => (
-      <div className="flex justify-end">
-        <IndeterminateCheckbox
-          {...{
-            checked: table.getIsAllRowsSelected(),
-            indeterminate: table.getIsSomeRowsSelected(),
-            onChange: table.getToggleAllRowsSelectedHandler(),
-          }}
-        />
-      </div>
-    ),
-    cell: ({ row }) => (
-      <IndeterminateCheckbox
-        {...{
-          checked: row.getIsSelected(),
-          disabled: !row.getCanSelect(),
-          indeterminate: row.getIsSomeSelected(),
-          onChange: row.getToggleSelectedHandler(),
-        }}
-      />
-    ),
-    size: 50,
-  };
+  // 📌 키보드 탐색 (WAI-ARIA grid): 방향키로 옮겨 다니는 현재 셀
+  // 처음에는 헤더의 전체 선택 칸이 Tab 으로 들어오는 셀이 된다.
+  const [focusedCell, setFocusedCell] = React.useState<CellPosition>({
+    rowId: HEADER_ROW_ID,
+    columnId: DRAG_HANDLE_COLUMN_ID,
+  });
+
+  // 📌 드래그 상태 (컬럼 드래그 정보는 meta.columnDrag 로 셀에 전달된다)
+  const dragState = useDragState();
+  const { activeId, selectedColumnIds, toggleColumnSelected, columnDrag } =
+    dragState;
+
+  // 📌 컬럼 헤더 메뉴 (항목은 utils/columnMenu 에 등록된 동작으로 만든다)
+  // anchor: 메뉴를 연 헤더 (닫을 때 포커스를 돌려줄 곳), autoFocus: 키보드로 열었으면 첫 항목에 포커스
+  const [columnMenu, setColumnMenu] = React.useState<{
+    columnId: string;
+    anchor: HTMLElement;
+    autoFocus: boolean;
+  } | null>(null);
+
+  // 드래그 핸들(선택) 컬럼 - 트리 여부와 페이지 나누기 여부에 따라 헤더 / 셀이 달라진다.
+  const dragHandleColumn = React.useMemo(
+    (): ColumnDef<TData> => ({
+      id: DRAG_HANDLE_COLUMN_ID,
+      header: ({ table }) => (
+        <div className="flex justify-end items-center gap-1">
+          {isTree && (
+            <button
+              onClick={table.getToggleAllRowsExpandedHandler()}
+              className="w-3 text-gray-500"
+              aria-label={
+                table.getIsAllRowsExpanded() ? "모두 접기" : "모두 펼치기"
+              }
+            >
+              {table.getIsAllRowsExpanded() ? "▾" : "▸"}
+            </button>
+          )}
+          <IndeterminateCheckbox
+            {...{
+              // 페이지로 나눠 볼 때는 현재 페이지만 선택한다. (전체 선택은 SelectionBanner)
+              ...(isPaginated
+                ? {
+                    checked: table.getIsAllPageRowsSelected(),
+                    indeterminate: table.getIsSomePageRowsSelected(),
+                    onChange: table.getToggleAllPageRowsSelectedHandler(),
+                  }
+                : {
+                    checked: table.getIsAllRowsSelected(),
+                    indeterminate: table.getIsSomeRowsSelected(),
+                    onChange: table.getToggleAllRowsSelectedHandler(),
+                  }),
+            }}
+          />
+        </div>
+      ),
+      cell: ({ row }) => (
+        <div className="flex items-center gap-1">
+          {isTree &&
+            (row.getCanExpand() ? (
+              <button
+                onClick={row.getToggleExpandedHandler()}
+                className="w-3 text-gray-500"
+                aria-label={row.getIsExpanded() ? "접기" : "펼치기"}
+              >
+                {row.getIsExpanded() ? "▾" : "▸"}
+              </button>
+            ) : (
+              <span className="w-3" />
+            ))}
+          <IndeterminateCheckbox
+            {...{
+              checked: row.getIsSelected(),
+              disabled: !row.getCanSelect(),
+              indeterminate: row.getIsSomeSelected(),
+              onChange: row.getToggleSelectedHandler(),
+            }}
+          />
+        </div>
+      ),
+      size: isTree ? 72 : 50,
+      enableResizing: false,
+      enablePinning: false,
+      enableHiding: false,
+    }),
+    [isTree, isPaginated]
+  );
 
   const columns = React.useMemo(
-    () => [dragHandleColumn, ...dynamicColumns],
-    [dynamicColumns]
+    () => [
+      dragHandleColumn,
+      ...dynamicColumns.map((column) =>
+        withAggregationFn(withDefaultFilterFn(column), columnAggregations)
+      ),
+    ],
+    [dragHandleColumn, dynamicColumns, columnAggregations]
   );
 
-  const table = useReactTable({
-    data,
+  // 📌 전체 검색 (툴바 검색창)
+  // 숨긴 컬럼은 검색하지 않는다. 표시 상태가 바뀌어도 다시 필터링되도록 컬럼 목록을 필터 값에 넣는다.
+  // 셀 렌더러도 넣어 화면에 보이는 글자(예: 1,234)와 비교한다.
+  const globalSearch = React.useMemo<GlobalSearchValue | undefined>(
+    () =>
+      globalFilter.trim()
+        ? {
+            query: globalFilter,
+            columnIds: columns
+              .map(getColumnDefId)
+              .filter(
+                (id) =>
+                  id !== DRAG_HANDLE_COLUMN_ID && columnVisibility[id] !== false
+              ),
+            renderers: Object.fromEntries(
+              columns.flatMap((column) =>
+                column.meta?.renderer
+                  ? [[getColumnDefId(column), column.meta.renderer]]
+                  : []
+              )
+            ),
+          }
+        : undefined,
+    [globalFilter, columns, columnVisibility]
+  );
+
+  // 📌 페이지 나누기 / 서버 데이터 모드
+  const [pagination, setPagination] = useControllableState({
+    value: paginationProp,
+    defaultValue: defaultPagination,
+    onChange: onPaginationChange,
+  });
+  const serverPage = useDataSourcePage(dataSource, {
+    pageIndex: pagination.pageIndex,
+    pageSize: pagination.pageSize,
+    sorting,
+    filters: columnFilters,
+    search: globalSearch,
+  });
+
+  // 정렬/필터가 바뀌면 (되돌리기, 보기 전환 포함) 첫 페이지부터 다시 본다.
+  // (TanStack 의 autoResetPageIndex 는 셀 편집처럼 data 만 바뀌어도 첫 페이지로 돌아가므로 끈다)
+  const queryConditionKey = JSON.stringify({
+    sorting,
+    columnFilters,
+    globalFilter,
+  });
+  const previousQueryConditionKeyRef = React.useRef(queryConditionKey);
+  React.useEffect(() => {
+    if (previousQueryConditionKeyRef.current === queryConditionKey) return;
+    previousQueryConditionKeyRef.current = queryConditionKey;
+    setPagination((prev) =>
+      prev.pageIndex === 0 ? prev : { ...prev, pageIndex: 0 }
+    );
+  }, [queryConditionKey, setPagination]);
+
+  // meta 가 아래 훅 (검색 이동, 셀 범위) 의 함수를 부르므로 타입을 적어 순환 추론을 끊는다.
+  const table: Table<TData> = useReactTable({
+    data: isServerMode ? serverPage.rows : data,
     columns,
     // initialState: {
     //   columnOrder: ["drag-handle", "status", "visits"],
     // },
     state: {
       rowSelection,
+      sorting,
+      columnFilters,
+      globalFilter: globalSearch,
+      columnSizing,
+      columnPinning: tableColumnPinning,
+      columnVisibility,
+      grouping,
+      expanded,
+      pagination,
     },
+    // 컬럼마다 minSize/maxSize 를 지정하지 않으면 이 범위 안에서만 조절된다.
+    defaultColumn: {
+      minSize: MIN_COLUMN_SIZE,
+      maxSize: MAX_COLUMN_SIZE,
+      // 셀 렌더러가 없는 컬럼은 meta.renderer 로 그리고, 검색어를 하이라이트한다.
+      cell: ({ renderValue, column, table }) => (
+        <CellValue
+          value={renderValue()}
+          renderer={column.columnDef.meta?.renderer}
+          searchQuery={table.options.meta?.searchQuery}
+        />
+      ),
+      aggregatedCell: ({ getValue }) => formatAggregatedValue(getValue()),
+    },
+    columnResizeMode,
+    enableColumnResizing: true,
+    sortingFns,
+    filterFns,
+    globalFilterFn: "globalSearch",
+    // 기본값은 첫 행의 값이 문자열/숫자인 컬럼만 검색하므로, 모든 컬럼을 넘기고 globalSearch 가 고른다.
+    getColumnCanGlobalFilter: () => true,
     getCoreRowModel: getCoreRowModel(),
-    getRowId: (row) => row.userId,
+    getFilteredRowModel: getFilteredRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    // 묶은 뒤 펼친 그룹만 행으로 풀어 놓으므로 getGroupedRowModel 이 getExpandedRowModel 보다 먼저 적용된다.
+    getGroupedRowModel: getGroupedRowModel(),
+    getExpandedRowModel: getExpandedRowModel(),
+    getSubRows,
+    getRowId,
+    // 서버 데이터 모드에서는 받은 행이 이미 정렬/필터/페이지 처리된 결과다.
+    manualPagination: isServerMode,
+    manualSorting: isServerMode,
+    manualFiltering: isServerMode,
+    enableGrouping: !isServerMode,
+    rowCount: isServerMode ? serverPage.totalCount : undefined,
+    getPaginationRowModel: isPaginated ? getPaginationRowModel() : undefined,
+    autoResetPageIndex: false,
+    onPaginationChange: setPagination,
     onRowSelectionChange: setRowSelection,
+    // 헤더 Shift+클릭, 팝오버 정렬/해제 모두 여기를 지나므로 히스토리에 남는다.
+    onSortingChange: (updater) =>
+      history.execute(
+        createCommand(
+          "정렬",
+          stateChange(setSorting, sorting, functionalUpdate(updater, sorting))
+        )
+      ),
+    onColumnFiltersChange: setColumnFilters,
+    onGroupingChange: (updater) =>
+      history.execute(
+        createCommand(
+          "그룹",
+          stateChange(
+            setGrouping,
+            grouping,
+            functionalUpdate(updater, grouping)
+          )
+        )
+      ),
+    onColumnSizingChange: setColumnSizing,
+    // Columns 패널의 표시/숨김도 되돌릴 수 있다.
+    onColumnVisibilityChange: (updater) =>
+      history.execute(
+        createCommand(
+          "컬럼 표시",
+          stateChange(
+            setColumnVisibility,
+            columnVisibility,
+            functionalUpdate(updater, columnVisibility)
+          )
+        )
+      ),
+    // 팝오버의 고정/해제도 되돌릴 수 있다. (드래그 핸들 컬럼은 저장하지 않는다)
+    onColumnPinningChange: (updater) => {
+      const next = functionalUpdate(updater, tableColumnPinning);
+      history.execute(
+        createCommand(
+          "컬럼 고정",
+          stateChange(setColumnPinning, columnPinning, {
+            left: next.left?.filter((id) => id !== DRAG_HANDLE_COLUMN_ID),
+            right: next.right,
+          })
+        )
+      );
+    },
+    onExpandedChange: setExpanded,
+    meta: {
+      // 서버 데이터 모드에서는 편집할 수 없다. (EditableCell 은 updateData 가 있을 때만 편집을 연다)
+      updateData: isServerMode
+        ? undefined
+        : (rowId, columnId, value) => handleCellEdit(rowId, columnId, value),
+      editingCell,
+      setEditingCell,
+      moveEditingCell: (from, direction) => moveEditingCell(from, direction),
+      focusedCell,
+      columnDrag,
+      searchQuery: globalSearch?.query,
+      isActiveSearchMatch: (position) => isActiveSearchMatch(position),
+      isCellSelected: (position) => isCellSelected(position),
+    },
   });
 
-  const handleDragEnd = (event: DragEndEvent) => {
-    const { active, over } = event;
-    if (!over || active.id === over.id) return;
+  // 📌 셀 편집은 모두 여기를 거쳐 data 에 반영된다.
+  const handleCellEdit = (rowId: string, columnId: string, value: unknown) => {
+    const column = table.getColumn(columnId);
+    if (!column) return;
+    if (!findTreePath(data, treeAccessors, rowId)) return;
 
-    const isRow = `${active.id}`.startsWith("row-");
-    const isCol = `${active.id}`.startsWith("col-");
+    const previousValue = table.getRow(rowId).getValue(columnId);
+    const nextData = updateTreeRow(data, treeAccessors, rowId, (row) =>
+      setRowValue(row, column, value)
+    );
+    history.execute(
+      createCommand("셀 편집", stateChange(setData, data, nextData))
+    );
+    onCellEdit?.({ rowId, columnId, value, previousValue });
+  };
 
-    if (isRow) {
-      const rows = table.getRowModel().rows;
-      const oldIdx = rows.findIndex(
-        (r) => `row-${r.original.userId}` === active.id
-      );
-      const newIdx = rows.findIndex(
-        (r) => `row-${r.original.userId}` === over.id
-      );
-      if (oldIdx !== -1 && newIdx !== -1) {
-        const newData = arrayMove(
-          rows.map((r) => r.original),
-          oldIdx,
-          newIdx
-        );
-        setData(newData);
-      }
+  // 현재 화면 순서(정렬/필터 반영) 기준으로 다음/이전 편집 가능한 셀을 찾는다.
+  const moveEditingCell = (from: CellPosition, direction: 1 | -1) => {
+    const positions = table.getRowModel().rows.flatMap((row) =>
+      row
+        .getVisibleCells()
+        .filter((cell) => cell.column.columnDef.meta?.editor)
+        .map((cell) => ({ rowId: row.id, columnId: cell.column.id }))
+    );
+    const currentIndex = positions.findIndex(
+      (p) => p.rowId === from.rowId && p.columnId === from.columnId
+    );
+    setEditingCell(positions[currentIndex + direction] ?? null);
+  };
+
+  // 행 삭제나 필터로 페이지 수가 줄면 마지막 페이지로 당긴다.
+  const pageCount = table.getPageCount();
+  React.useEffect(() => {
+    if (!isPaginated || isServerMode) return;
+    if (pagination.pageIndex > 0 && pagination.pageIndex >= pageCount) {
+      setPagination((prev) => ({
+        ...prev,
+        pageIndex: Math.max(0, pageCount - 1),
+      }));
     }
+  }, [
+    isPaginated,
+    isServerMode,
+    pagination.pageIndex,
+    pageCount,
+    setPagination,
+  ]);
 
-    if (isCol) {
-      const oldIdx = dynamicColumns.findIndex(
-        (col) => `col-${col.id}` === active.id
-      );
-      const newIdx = dynamicColumns.findIndex(
-        (col) => `col-${col.id}` === over.id
+  // 정렬 중이거나, 그룹으로 묶었거나, 서버 데이터 모드면 행을 옮길 수 없다.
+  const rowDragDisabledReason = isServerMode
+    ? "서버 데이터 모드에서는 행 순서를 바꿀 수 없습니다"
+    : sorting.length > 0
+    ? "정렬 중에는 행 순서를 바꿀 수 없습니다"
+    : isGrouped
+    ? "그룹으로 묶은 동안에는 행 순서를 바꿀 수 없습니다"
+    : undefined;
+  const isRowDragDisabled = !!rowDragDisabledReason;
+
+  const { rows } = table.getRowModel();
+  // SortableContext 에는 화면 밖 행까지 모든 id 를 넘긴다. (droppable 은 렌더링된 행만 등록됨)
+  const rowIds = rows.map((r) => `${ROW_DND_PREFIX}${r.id}`);
+
+  // 📌 행 / 컬럼 드래그 (선택한 항목은 함께 옮긴다)
+  const { dragBlockIds, isMultiDrag, getRowDropIndicator, dndContextProps } =
+    useTableDragAndDrop({
+      dragState,
+      table,
+      rows,
+      isTree,
+      isRowDragDisabled,
+      data,
+      setData,
+      treeAccessors,
+      expanded,
+      setExpanded,
+      columnPinning,
+      setColumnPinning,
+      dynamicColumns,
+      setDynamicColumns,
+      pagination,
+      history,
+    });
+
+  // 📌 행 가상화: 스크롤 영역에 보이는 행(+overscan)만 렌더링하고
+  // 위/아래는 빈 spacer 행으로 높이를 채운다.
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const rowVirtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    overscan: 10,
+    getItemKey: (index) => rows[index]!.id,
+  });
+  const virtualRows = rowVirtualizer.getVirtualItems();
+  const paddingTop = virtualRows[0]?.start ?? 0;
+  const paddingBottom =
+    rowVirtualizer.getTotalSize() -
+    (virtualRows[virtualRows.length - 1]?.end ?? 0);
+
+  // 📌 그리드 키보드 탐색
+  // 방향키 / Home / End / PageUp / PageDown 으로 셀 이동 (Ctrl+Home/End 는 표의 처음/끝)
+  // Space: 행 선택 토글 (헤더의 선택 칸은 전체 선택, 헤더·드래그 핸들은 dnd-kit 이 집어 들기)
+  // Enter / Alt+↓: 헤더에서는 컬럼 메뉴 열기, 셀에서는 편집 (EditableCell)
+  // 가상화로 아직 렌더링되지 않은 행이면 먼저 스크롤하고, 렌더링된 뒤 포커스를 옮긴다.
+  const pendingCellFocusRef = React.useRef<CellPosition | null>(null);
+
+  const focusCell = (position: CellPosition) => {
+    setFocusedCell(position);
+    if (position.rowId !== HEADER_ROW_ID) {
+      rowVirtualizer.scrollToIndex(
+        rows.findIndex((r) => r.id === position.rowId)
       );
-      if (oldIdx !== -1 && newIdx !== -1) {
-        setDynamicColumns((prev) => arrayMove(prev, oldIdx, newIdx));
-      }
     }
+    pendingCellFocusRef.current = position;
   };
 
-  const sensors = useSensors(
-    useSensor(MouseSensor),
-    useSensor(TouchSensor),
-    useSensor(KeyboardSensor),
-    useSensor(PointerSensor, {
-      activationConstraint: {
-        distance: 5,
-      },
-    })
-  );
+  React.useEffect(() => {
+    const pending = pendingCellFocusRef.current;
+    if (!pending) return;
+    const element = findCellElement(scrollRef.current, pending);
+    if (element) {
+      pendingCellFocusRef.current = null;
+      element.focus();
+    }
+  });
+
+  // 📌 검색 일치 셀 사이 이동 (검색창의 Enter / Shift+Enter)
+  const { isActiveSearchMatch, moveSearchMatch } = useSearchNavigation({
+    table,
+    globalSearch,
+    rows,
+    isServerMode,
+    isPaginated,
+    pagination,
+    setFocusedCell,
+    scrollRef,
+    rowVirtualizer,
+  });
+
+  // 📌 셀 범위 선택과 복사 / 붙여넣기
+  const { cellRange, setCellRange, isCellSelected, ...cellRangeClipboard } =
+    useCellRangeClipboard({
+      table,
+      rows,
+      focusedCell,
+      isDragging: !!activeId,
+      isEditing: !!editingCell,
+      isServerMode,
+      createRow,
+      isGrouped,
+      data,
+      setData,
+      treeAccessors,
+      history,
+      onCellEdit,
+      onPasted: (message, command) => setToast({ message, command }),
+    });
+
+  // 현재 셀의 행이 삭제되거나 필터로 사라지면, 컬럼이 사라지면 처음 셀로 되돌린다.
+  React.useEffect(() => {
+    const rowExists =
+      focusedCell.rowId === HEADER_ROW_ID ||
+      rows.some((r) => r.id === focusedCell.rowId);
+    const columnExists = getDisplayedLeafColumns(table).some(
+      (c) => c.id === focusedCell.columnId
+    );
+    if (!rowExists || !columnExists) {
+      setFocusedCell({ rowId: HEADER_ROW_ID, columnId: DRAG_HANDLE_COLUMN_ID });
+    }
+  }, [focusedCell, rows, table]);
+
+  const handleGridKeyDown = (e: React.KeyboardEvent<HTMLTableElement>) => {
+    // 드래그 중에는 dnd-kit 이, 편집 중에는 입력기가 키를 처리한다.
+    if (activeId || editingCell) return;
+    // 셀 안의 체크박스·버튼 등이 아니라 셀 자체에 포커스가 있을 때만
+    const target = e.target as HTMLElement;
+    const position = getCellPositionFromElement(target);
+    if (!position || target.closest("[data-cell-row]") !== target) return;
 
-  const [activeId, setActiveId] = React.useState<UniqueIdentifier | null>(null);
-  const getModifiersForDragId = (id: string): Modifier[] => {
-    if (id.startsWith("row-")) return [restrictToVerticalAxis];
-    if (id.startsWith("col-")) return [restrictToHorizontalAxis];
-    return [];
+    const isHeader = position.rowId === HEADER_ROW_ID;
+    const isHandle = position.columnId === DRAG_HANDLE_COLUMN_ID;
+
+    if (
+      isHeader &&
+      !isHandle &&
+      (e.key === "Enter" || (e.altKey && e.key === "ArrowDown"))
+    ) {
+      e.preventDefault();
+      openColumnMenu(target, `${COLUMN_DND_PREFIX}${position.columnId}`, true);
+      return;
+    }
+
+    if (e.key === "Escape" && cellRange) {
+      e.preventDefault();
+      setCellRange(null);
+      return;
+    }
+
+    if (e.key === " ") {
+      // 헤더 컬럼 / 행 드래그 핸들에서는 KeyboardSensor 가 집어 든다.
+      if (isHeader !== isHandle) return;
+      e.preventDefault();
+      if (isHeader) {
+        if (isPaginated) table.toggleAllPageRowsSelected();
+        else table.toggleAllRowsSelected();
+      } else table.getRow(position.rowId).toggleSelected();
+      return;
+    }
+
+    const next = getNextCellPosition(
+      e,
+      position,
+      [HEADER_ROW_ID, ...rows.map((r) => r.id)],
+      getDisplayedLeafColumns(table).map((c) => c.id),
+      KEYBOARD_PAGE_SIZE
+    );
+    if (!next) return;
+    e.preventDefault();
+    // Shift+방향키: 범위의 끝(focus)을 옮긴다. 범위는 본문 셀 안에서만 넓어진다.
+    if (e.shiftKey && isRangeCell(position)) {
+      if (!isRangeCell(next)) return;
+      setCellRange({
+        anchor:
+          cellRange && isSameCell(cellRange.focus, position)
+            ? cellRange.anchor
+            : position,
+        focus: next,
+      });
+    } else {
+      setCellRange(null);
+    }
+    focusCell(next);
   };
 
-  const rowIds = table
-    .getRowModel()
-    .rows.map((r) => `row-${r.original.userId}`);
-  const colIds = dynamicColumns.map((c) => `col-${c.id}`);
+  // 마우스 클릭이나 Tab 으로 셀에 포커스가 가면 그 셀을 현재 셀로 삼는다.
+  const handleGridFocus = (e: React.FocusEvent<HTMLTableElement>) => {
+    const position = getCellPositionFromElement(e.target);
+    if (
+      position &&
+      (position.rowId !== focusedCell.rowId ||
+        position.columnId !== focusedCell.columnId)
+    ) {
+      setFocusedCell(position);
+    }
+  };
 
-  const rerender = (count: number = 20) => setData(() => makeData(count));
+  // 📌 리사이즈 핸들 더블클릭: 현재 렌더링된(보이는) 헤더/셀 중 가장 넓은 내용에 맞춘다.
+  const autoFitColumn = (columnId: string) => {
+    const cells = scrollRef.current?.querySelectorAll<HTMLElement>(
+      `[data-column-id="${CSS.escape(columnId)}"]`
+    );
+    if (!cells?.length) return;
 
-  const addDynamicColumn = () => {
-    const newColumnKey = `dynamic-col-${dynamicColumns.length + 1}`;
-    const newColumn = {
-      accessorKey: newColumnKey,
-      id: newColumnKey,
-      header: `동적 컬럼 ${dynamicColumns.length + 1}`,
-      cell: (info: any) => `${info.getValue() || "-"}`,
-    };
-    setDynamicColumns((prevColumns) => [...prevColumns, newColumn]);
+    const range = document.createRange();
+    let contentWidth = 0;
+    cells.forEach((cell) => {
+      range.selectNodeContents(cell);
+      contentWidth = Math.max(
+        contentWidth,
+        range.getBoundingClientRect().width
+      );
+    });
+    // getSize() 가 minSize/maxSize 로 잘라 주므로 그대로 넣는다.
+    setColumnSizing((prev) => ({
+      ...prev,
+      [columnId]: Math.ceil(contentWidth + AUTO_FIT_PADDING),
+    }));
   };
 
+  // 📌 저장된 보기 (툴바 Views 메뉴)
+  const viewsMenu = useTableViews({
+    table,
+    views,
+    setViews,
+    activeViewId,
+    setActiveViewId,
+    dynamicColumns,
+    setDynamicColumns,
+    columnVisibility,
+    setColumnVisibility,
+    columnSizing,
+    setColumnSizing,
+    columnPinning,
+    setColumnPinning,
+    sorting,
+    setSorting,
+    columnFilters,
+    setColumnFilters,
+    history,
+  });
+
+  // 📌 컬럼 추가 / 수정, 서식 규칙 다이얼로그
+  const columnDialogs = useColumnDialogs({
+    table,
+    data,
+    setData,
+    treeAccessors,
+    dynamicColumns,
+    setDynamicColumns,
+    columnFilters,
+    setColumnFilters,
+    views,
+    setViews,
+    history,
+  });
+
+  // 📌 CSV / JSON 가져오기
+  const tableImport = useTableImport({
+    createImportedRow: isServerMode ? undefined : createImportedRow,
+    data,
+    setData,
+    treeAccessors,
+    dynamicColumns,
+    setDynamicColumns,
+    rowSelection,
+    setRowSelection,
+    history,
+    onImported: (rowCount, command) =>
+      setToast({
+        message: `${rowCount.toLocaleString()}개 행을 가져왔습니다`,
+        command,
+      }),
+  });
+
   const addRow = () => {
-    const copyData = [...data];
-    const addData = makeData(1);
-    setData([...copyData, ...addData]);
+    if (!createRow) return;
+    history.execute(
+      createCommand(
+        "행 추가",
+        stateChange(setData, data, [...data, createRow()])
+      )
+    );
   };
 
   const removeRow = () => {
-    const copyData = [...data];
+    // 트리라면 모든 깊이에서 선택된 행을 (하위 행과 함께) 제거한다.
     const selectedRowIds = Object.keys(table.getState().rowSelection);
-    const newData = copyData.filter((c) => !selectedRowIds.includes(c.userId));
-    setData(newData);
-    table.toggleAllRowsSelected(false); // (선택 사항) 행 제거 후 모든 선택을 해제
+    const newData = filterTree(
+      data,
+      treeAccessors,
+      (c, index) => !selectedRowIds.includes(getRowId(c, index))
+    );
+    // 행 제거 후 모든 선택을 해제 (되돌리면 선택도 복원)
+    history.execute(
+      createCommand(
+        "행 삭제",
+        stateChange(setData, data, newData),
+        stateChange(setRowSelection, rowSelection, {})
+      )
+    );
   };
 
-  const renderPopover = () => {
-    if (!showPopover || !targetColumnId) return null;
+  // 📌 행 메뉴 (우클릭) 와 행 상세 서랍
+  // 행 메뉴는 data 순서 기준으로 같은 부모 아래에서 행을 넣고 옮긴다. (그룹 행에는 열리지 않는다)
+  // cell: 메뉴를 연 셀 (닫을 때 포커스를 돌려줄 곳), anchor: 셀 안에서 우클릭한 지점
+  const [rowMenu, setRowMenu] = React.useState<{
+    rowId: string;
+    cell: HTMLElement;
+    anchor: MenuAnchor;
+    autoFocus: boolean;
+  } | null>(null);
+  const [detailRowId, setDetailRowId] = React.useState<string | null>(null);
 
-    return (
-      <div
-        ref={popoverRef} // React가 해당 DOM 요소가 마운트되었을 때 popoverRef.current = 해당 DOM 노드를 넣어준다.
-        className="absolute z-50 border rounded bg-white shadow p-2 text-sm flex flex-col gap-1"
-        style={{
-          top: popoverPos.top + 4,
-          left: popoverPos.left,
-        }}
-      >
-        <button
-          onClick={() => {
-            setDynamicColumns((prev) =>
-              prev.filter((col) => `col-${col.id}` !== targetColumnId)
-            );
-            setShowPopover(false);
-            setShowSortPopover(false); // 팝오버 닫을 때 정렬 팝오버도 닫기
-          }}
-          className="text-red-600 hover:underline text-left"
-        >
-          속성 삭제
-        </button>
-        <button
-          onMouseEnter={(e) => handleSortButtonHover(e)}
-          className="text-blue-600 hover:underline text-left"
-        >
-          정렬
-        </button>
-      </div>
-    );
+  // 필터로 가려지거나 다른 페이지에 있는 행도 찾는다. (없으면 undefined)
+  const getDataRow = (rowId: string) => table.getCoreRowModel().rowsById[rowId];
+  // getAllLeafColumns 는 컬럼이나 순서가 바뀔 때만 새 배열을 준다. (다이얼로그의 메모가 매 렌더 다시 계산되지 않도록)
+  const leafColumns = table.getAllLeafColumns();
+  const dataColumns = React.useMemo(
+    () => leafColumns.filter((column) => column.id !== DRAG_HANDLE_COLUMN_ID),
+    [leafColumns]
+  );
+  // 행 객체에는 있지만 컬럼이 아닌 필드 (예: 행 id) - 가져오기에서 새 컬럼으로 만들지 않는다.
+  const firstRow = data[0];
+  const rowOnlyFields = React.useMemo(() => {
+    if (typeof firstRow !== "object" || firstRow === null) return [];
+    const dataKeys = new Set(dataColumns.map(getColumnDataKey));
+    return Object.keys(firstRow).filter((key) => !dataKeys.has(key));
+  }, [firstRow, dataColumns]);
+
+  const openRowMenu = (e: React.MouseEvent, row: Row<TData>) => {
+    const target = e.target as HTMLElement;
+    // 그룹 행, 편집 중인 입력기에서는 브라우저 메뉴를 그대로 쓴다.
+    if (row.getIsGrouped() || target.closest("input, select, textarea")) {
+      return;
+    }
+    e.preventDefault();
+    const cell = target.closest<HTMLElement>("[data-cell-row]") ?? target;
+    // 키보드 (Shift+F10 / 메뉴 키) 로 열면 좌표가 없으므로 셀 왼쪽 아래에 띄운다.
+    const fromKeyboard = e.clientX === 0 && e.clientY === 0;
+    const rect = cell.getBoundingClientRect();
+    const offsetX = fromKeyboard ? 0 : e.clientX - rect.left;
+    const offsetY = fromKeyboard ? rect.height : e.clientY - rect.top;
+    let point = new DOMRect(rect.left + offsetX, rect.top + offsetY, 0, 0);
+    setRowMenu({
+      rowId: row.id,
+      cell,
+      // 스크롤하면 셀을 따라간다. (가상화로 셀이 사라지면 마지막 위치에 둔다)
+      anchor: {
+        getBoundingClientRect: () => {
+          if (cell.isConnected) {
+            const { left, top } = cell.getBoundingClientRect();
+            point = new DOMRect(left + offsetX, top + offsetY, 0, 0);
+          }
+          return point;
+        },
+      },
+      autoFocus: fromKeyboard,
+    });
   };
 
-  const renderSortPopover = (): React.JSX.Element | null => {
-    if (!showSortPopover || !sortColumnId) return null;
+  const closeRowMenu = (restoreFocus: boolean) => {
+    setRowMenu(null);
+    if (restoreFocus) rowMenu?.cell.focus();
+  };
 
-    return (
-      <div
-        ref={sortPopoverRef}
-        className="absolute z-50 border rounded bg-white shadow p-2 text-sm flex flex-col gap-1"
-        style={{
-          top: sortPopoverPos.top,
-          left: sortPopoverPos.left,
-        }}
-      >
-        <button
-          onClick={() => {
-            handleSort(sortColumnId, "asc");
-            setShowPopover(false); // 정렬 후 첫 번째 팝오버도 닫기
-          }}
-          className="hover:bg-gray-100 p-1 rounded text-left"
-        >
-          오름차순
-        </button>
-        <button
-          onClick={() => {
-            handleSort(sortColumnId, "desc");
-            setShowPopover(false); // 정렬 후 첫 번째 팝오버도 닫기
-          }}
-          className="hover:bg-gray-100 p-1 rounded text-left"
-        >
-          내림차순
-        </button>
-      </div>
+  const insertRow = (rowId: string, position: "before" | "after") => {
+    if (!createRow) return;
+    const nextData = insertTreeRows(
+      data,
+      treeAccessors,
+      rowId,
+      [createRow()],
+      position
+    );
+    if (!nextData) return;
+    history.execute(
+      createCommand("행 추가", stateChange(setData, data, nextData))
     );
   };
 
-  const handleHeaderClick = (e: React.MouseEvent, columnId: string) => {
-    const rect = (e.target as HTMLElement).getBoundingClientRect();
-    setPopoverPos({ top: rect.bottom, left: rect.left });
-    setTargetColumnId(columnId);
-    setShowPopover(true);
-    setShowSortPopover(false); // 헤더 클릭 시 정렬 팝오버는 숨기기
+  const duplicateTreeRow = (rowId: string) => {
+    const row = getDataRow(rowId);
+    if (!duplicateRow || !row) return;
+    const nextData = insertTreeRows(
+      data,
+      treeAccessors,
+      rowId,
+      [duplicateRow(row.original)],
+      "after"
+    );
+    if (!nextData) return;
+    history.execute(
+      createCommand("행 복제", stateChange(setData, data, nextData))
+    );
   };
 
-  const handleSortButtonHover = (e: React.MouseEvent) => {
-    const rect = (e.target as HTMLElement).getBoundingClientRect();
-    setSortPopoverPos({ top: rect.top, left: rect.right + 4 });
-    setSortColumnId(targetColumnId); // 정렬할 컬럼 ID 설정
-    setShowSortPopover(true);
+  const moveRowToEdge = (rowId: string, edge: "first" | "last") => {
+    const nextData = moveTreeRowToEdge(data, treeAccessors, rowId, edge);
+    if (!nextData || nextData === data) return;
+    history.execute(
+      createCommand("행 이동", stateChange(setData, data, nextData))
+    );
   };
 
-  const handleSort = (columnId: string, direction: "asc" | "desc") => {
-    // columnId에서 'col-' 접두사를 제거하여 실제 컬럼 ID를 얻습니다.
-    const actualColumnId = columnId.replace("col-", "");
-
-    // dynamicColumns에서 accessorKey가 있는 컬럼을 찾습니다.
-    const column = dynamicColumns.find(
-      (col) => col.id === actualColumnId && "accessorKey" in col
-    ) as ColumnDef<Person> & { accessorKey: keyof Person }; // 타입 단언 추가
+  // 하위 행도 함께 지우고 선택에서 뺀다. 되돌리기 토스트를 띄운다.
+  const deleteRow = (rowId: string) => {
+    const row = getDataRow(rowId);
+    if (!row) return;
+    const removedIds = [row.id, ...row.getLeafRows().map((r) => r.id)];
+    const command = createCommand(
+      "행 삭제",
+      stateChange(
+        setData,
+        data,
+        filterTree(
+          data,
+          treeAccessors,
+          (c, index) => getRowId(c, index) !== rowId
+        )
+      ),
+      stateChange(
+        setRowSelection,
+        rowSelection,
+        Object.fromEntries(
+          Object.entries(rowSelection).filter(
+            ([id]) => !removedIds.includes(id)
+          )
+        )
+      )
+    );
+    history.execute(command);
+    if (detailRowId && removedIds.includes(detailRowId)) setDetailRowId(null);
+    setToast({
+      message: `'${getRowLabel(
+        row,
+        table.getVisibleLeafColumns()
+      )}' 행을 삭제했습니다`,
+      command,
+    });
+  };
 
-    if (!column || !column.accessorKey) {
-      console.warn(
-        "Invalid column or accessorKey not found for sorting:",
-        columnId
-      );
-      return;
+  // 행 상세에서 바꾼 필드를 한 번에 반영한다. (되돌리기 한 번으로 모두 복원)
+  const handleRowDetailSubmit = (
+    rowId: string,
+    values: Record<string, unknown>
+  ) => {
+    const row = getDataRow(rowId);
+    const edits = Object.entries(values).flatMap(([columnId, value]) => {
+      const column = table.getColumn(columnId);
+      return column ? [{ column, value }] : [];
+    });
+    if (!row || edits.length === 0) return;
+    const nextData = updateTreeRow(data, treeAccessors, rowId, (original) =>
+      edits.reduce(
+        (next, { column, value }) => setRowValue(next, column, value),
+        original
+      )
+    );
+    history.execute(
+      createCommand("행 편집", stateChange(setData, data, nextData))
+    );
+    for (const { column, value } of edits) {
+      onCellEdit?.({
+        rowId,
+        columnId: column.id,
+        value,
+        previousValue: row.getValue(column.id),
+      });
     }
+  };
 
-    const accessorKey = column.accessorKey;
-
-    const sortedData = [...data].sort((a, b) => {
-      const valA = a[accessorKey];
-      const valB = b[accessorKey];
-
-      // undefined나 null 값에 대한 처리 (선택 사항)
-      // 정렬 시 undefined/null 값을 어떻게 처리할지 결정해야 한다.
-      // 여기서는 null/undefined를 가장 마지막으로 보내기로 한다.
-      if (valA === undefined || valA === null) return 1;
-      if (valB === undefined || valB === null) return -1;
-
-      if (typeof valA === "string" && typeof valB === "string") {
-        return direction === "asc"
-          ? valA.localeCompare(valB)
-          : valB.localeCompare(valA);
-      } else if (typeof valA === "number" && typeof valB === "number") {
-        return direction === "asc" ? valA - valB : valB - valA;
-      } else if (typeof valA === "boolean" && typeof valB === "boolean") {
-        // boolean 값 정렬 (예: true가 false보다 큼)
-        return direction === "asc"
-          ? valA === valB
-            ? 0
-            : valA
-            ? 1
-            : -1
-          : valA === valB
-          ? 0
-          : valA
-          ? -1
-          : 1;
-      }
-      // 다른 타입의 값에 대한 기본 정렬 (비교할 수 없는 경우 0 반환)
-      return 0;
-    });
+  const renderRowMenu = () => {
+    const row = rowMenu && getDataRow(rowMenu.rowId);
+    if (!rowMenu || !row) return null;
+    const canEditRows = !isServerMode;
+    return (
+      <RowContextMenu
+        label={`${getRowLabel(row, table.getVisibleLeafColumns())} 행 메뉴`}
+        anchor={rowMenu.anchor}
+        autoFocus={rowMenu.autoFocus}
+        moveDisabledReason={rowDragDisabledReason}
+        onOpenDetails={() => setDetailRowId(row.id)}
+        onDuplicate={
+          canEditRows && duplicateRow
+            ? () => duplicateTreeRow(row.id)
+            : undefined
+        }
+        onInsert={
+          canEditRows && createRow
+            ? (position) => insertRow(row.id, position)
+            : undefined
+        }
+        onMoveToEdge={
+          canEditRows ? (edge) => moveRowToEdge(row.id, edge) : undefined
+        }
+        onDelete={canEditRows ? () => deleteRow(row.id) : undefined}
+        onClose={closeRowMenu}
+      />
+    );
+  };
 
-    setData(sortedData);
-    setShowSortPopover(false); // 정렬 후 두 번째 팝오버 닫기
+  const renderRowDetail = () => {
+    const row = detailRowId && getDataRow(detailRowId);
+    if (!row) return null;
+    return (
+      <RowDetailDrawer
+        // 다른 행으로 옮겨 가면 입력을 새로 채운다.
+        key={row.id}
+        row={row}
+        columns={dataColumns}
+        readOnly={isServerMode}
+        onSubmit={(values) => {
+          handleRowDetailSubmit(row.id, values);
+          setDetailRowId(null);
+        }}
+        onSelectRow={setDetailRowId}
+        onClose={() => setDetailRowId(null)}
+      />
+    );
   };
 
-  const popoverRef = React.useRef<HTMLDivElement>(null);
-  const sortPopoverRef = React.useRef<HTMLDivElement>(null);
+  // 📌 컬럼 삭제 - 걸려 있던 정렬/필터도 함께 정리하고, 되돌리기 토스트를 띄운다.
+  const deleteColumn = (columnId: string) => {
+    const column = table.getColumn(columnId);
+    const command = createCommand(
+      "컬럼 삭제",
+      stateChange(
+        setDynamicColumns,
+        dynamicColumns,
+        dynamicColumns.filter((col) => getColumnDefId(col) !== columnId)
+      ),
+      stateChange(
+        setSorting,
+        sorting,
+        sorting.filter((s) => s.id !== columnId)
+      ),
+      stateChange(
+        setColumnFilters,
+        columnFilters,
+        columnFilters.filter((f) => f.id !== columnId)
+      ),
+      stateChange(setColumnPinning, columnPinning, {
+        left: columnPinning.left?.filter((id) => id !== columnId),
+        right: columnPinning.right?.filter((id) => id !== columnId),
+      }),
+      stateChange(
+        setColumnVisibility,
+        columnVisibility,
+        Object.fromEntries(
+          Object.entries(columnVisibility).filter(([id]) => id !== columnId)
+        )
+      ),
+      stateChange(
+        setGrouping,
+        grouping,
+        grouping.filter((id) => id !== columnId)
+      ),
+      stateChange(
+        setColumnAggregations,
+        columnAggregations,
+        Object.fromEntries(
+          Object.entries(columnAggregations).filter(([id]) => id !== columnId)
+        )
+      )
+    );
+    history.execute(command);
+    setToast({
+      message: `'${
+        column ? getColumnHeaderLabel(column) : columnId
+      }' 컬럼을 삭제했습니다`,
+      command,
+    });
+  };
 
-  // 팝오버 외부 클릭 감지
-  React.useEffect(() => {
-    const handleClickOutside = (e: MouseEvent) => {
-      // 팝오버가 모두 닫혀있다면 더 이상 처리할 필요 없음
-      if (!showPopover && !showSortPopover) {
-        return;
-      }
+  // 그룹 행과 합계 행에 쓸 숫자 컬럼 집계
+  const setColumnAggregation = (columnId: string, choice: AggregationChoice) =>
+    history.execute(
+      createCommand(
+        "집계",
+        stateChange(setColumnAggregations, columnAggregations, {
+          ...columnAggregations,
+          [columnId]: choice,
+        })
+      )
+    );
 
-      const clickedElement = e.target as Node;
-
-      // 첫 번째 팝오버의 외부를 클릭했고, 클릭된 요소가 두 번째 팝오버 내부에 있지 않은 경우
-      const isClickedOutsideFirstPopover =
-        popoverRef.current && !popoverRef.current.contains(clickedElement);
-
-      // 두 번째 팝오버의 외부를 클릭했고, 클릭된 요소가 첫 번째 팝오버 내부에 있지 않은 경우
-      const isClickedOutsideSecondPopover =
-        sortPopoverRef.current &&
-        !sortPopoverRef.current.contains(clickedElement);
-
-      // 시나리오 1: 두 번째 팝오버가 열려있는 경우
-      if (showSortPopover) {
-        // 클릭된 위치가 두 번째 팝오버 외부인 경우 (정렬 버튼 클릭은 제외)
-        if (isClickedOutsideSecondPopover) {
-          // 클릭된 위치가 첫 번째 팝오버의 "정렬" 버튼이 아닌 경우에만 닫기
-          // 즉, "정렬" 버튼을 클릭해서 두 번째 팝오버가 열렸고, 그 클릭이 외부 클릭으로 인식되면 안 되므로
-          // 첫 번째 팝오버 안에 있지만 두 번째 팝오버는 아닌 영역을 클릭했을 때도 닫히도록 처리
-          if (
-            popoverRef.current &&
-            popoverRef.current.contains(clickedElement) &&
-            !sortPopoverRef.current?.contains(clickedElement) // 이 조건은 필요 없을 수 있으나, 안전을 위해
-          ) {
-            // 첫 번째 팝오버 내에서 "정렬" 버튼을 클릭해서 두 번째 팝오버가 열렸을 때
-            // 해당 클릭은 외부 클릭으로 간주하지 않으므로 아무것도 하지 않음.
-            // 하지만 그 외의 첫 번째 팝오버 영역을 클릭하면 닫히게 할 것.
-            // 여기서 `return`을 하면 첫 번째 팝오버의 다른 부분을 클릭해도 닫히지 않게 됨.
-            // 원하는 동작은 두 번째 팝오버가 열려 있을 때, 다른 곳을 클릭하면 둘 다 닫히는 것이므로
-            // 이 조건 대신 아래의 통합된 닫기 로직을 사용.
-          } else {
-            // 두 번째 팝오버 외부를 클릭한 경우, 두 팝오버 모두 닫기
-            setShowSortPopover(false);
-            setShowPopover(false);
-          }
-        }
-      }
-      // 시나리오 2: 첫 번째 팝오버만 열려있는 경우 (두 번째 팝오버는 닫혀있음)
-      else if (showPopover) {
-        // 첫 번째 팝오버의 외부를 클릭한 경우
-        if (isClickedOutsideFirstPopover) {
-          setShowPopover(false);
-        }
-      }
-    };
+  const openColumnMenu = (
+    anchor: HTMLElement,
+    columnId: string,
+    autoFocus: boolean
+  ) => {
+    setColumnMenu({
+      columnId: columnId.replace(COLUMN_DND_PREFIX, ""),
+      anchor,
+      autoFocus,
+    });
+  };
 
-    // 팝오버가 하나라도 열려 있을 때만 이벤트 리스너 등록
-    if (showPopover || showSortPopover) {
-      document.addEventListener("mousedown", handleClickOutside);
-    }
+  const closeColumnMenu = (restoreFocus: boolean) => {
+    setColumnMenu(null);
+    if (restoreFocus) columnMenu?.anchor.focus();
+  };
 
-    return () => {
-      document.removeEventListener("mousedown", handleClickOutside);
-    };
-  }, [showPopover, showSortPopover]); // showPopover, showSortPopover 상태 변화에 따라 effect 재실행
+  const handleHeaderClick = (e: React.MouseEvent, columnId: string) => {
+    openColumnMenu(e.currentTarget as HTMLElement, columnId, false);
+  };
+
+  const renderColumnMenu = () => {
+    const column = columnMenu && table.getColumn(columnMenu.columnId);
+    if (!columnMenu || !column) return null;
+    return (
+      <Menu
+        anchor={columnMenu.anchor}
+        label={`${getColumnHeaderLabel(column)} 컬럼 메뉴`}
+        items={getColumnMenuItems({
+          table,
+          column,
+          deleteColumn: () => deleteColumn(column.id),
+          editColumn: () => columnDialogs.openEditColumnDialog(column.id),
+          editFormattingRules: () => columnDialogs.openRulesDialog(column.id),
+          isColumnSelected: selectedColumnIds.includes(column.id),
+          toggleColumnSelected: () => toggleColumnSelected(column.id),
+          setAggregation: (choice) => setColumnAggregation(column.id, choice),
+        })}
+        autoFocus={columnMenu.autoFocus}
+        onClose={closeColumnMenu}
+      />
+    );
+  };
 
   return (
-    <DndContext
-      collisionDetection={closestCenter}
-      sensors={sensors}
-      onDragStart={(e) => setActiveId(e.active.id)}
-      onDragEnd={(e) => {
-        setActiveId(null);
-        handleDragEnd(e);
-      }}
-      modifiers={activeId ? getModifiersForDragId(`${activeId}`) : []}
-    >
+    <DndContext {...dndContextProps}>
+      {/* 포인터를 따라다니는 미리보기 - 원래 행 / 컬럼은 놓일 자리에 흐리게 남는다. */}
+      <TableDragOverlay
+        table={table}
+        activeId={activeId}
+        rows={rows}
+        // 컬럼 고스트에는 지금 스크롤 영역에 렌더링된 행만 그린다.
+        renderedRows={virtualRows.map((virtualRow) => rows[virtualRow.index]!)}
+        count={dragBlockIds.length}
+      />
       <div className="p-4">
-        <div className="flex flex-wrap gap-2 mb-2">
-          <button
-            onClick={() => rerender()}
-            className="border rounded-md p-1 bg-[#5da5ce] text-[#183347]"
-          >
-            Regenerate
-          </button>
-          <button
-            onClick={() => rerender(100)}
-            className="border rounded-md p-1 bg-[#ecbf42] text-[#402c1b]"
-          >
-            100 Data Regenerate
-          </button>
-          <button
-            onClick={addDynamicColumn}
-            className="border rounded-md p-1 bg-[#7bb781] text-[#1c3829]"
-          >
-            Add Column
-          </button>
-          <button
-            onClick={addRow}
-            className="border rounded-md p-1 bg-[#7bb781] text-[#1c3829]"
+        <TableToolbar
+          table={table}
+          history={history}
+          onAddColumn={columnDialogs.openAddColumnDialog}
+          onAddRow={createRow && !isServerMode ? addRow : undefined}
+          onRemoveRow={isServerMode ? undefined : removeRow}
+          onResetLayout={resetLayout}
+          viewsMenu={viewsMenu}
+          onImportFile={tableImport.openImportFile}
+          exportFileName={exportFileName}
+          search={{
+            value: globalFilter,
+            onChange: setGlobalFilter,
+            onNavigate: moveSearchMatch,
+            summary: isServerMode
+              ? `${serverPage.totalCount.toLocaleString()} rows`
+              : `${table
+                  .getFilteredRowModel()
+                  .flatRows.length.toLocaleString()} of ${table
+                  .getPreFilteredRowModel()
+                  .flatRows.length.toLocaleString()} rows`,
+          }}
+        >
+          {toolbar}
+        </TableToolbar>
+        {enablePagination && !isServerMode && <SelectionBanner table={table} />}
+        {isServerMode && serverPage.error != null && (
+          <div
+            role="alert"
+            className="mb-2 flex w-fit items-center gap-2 rounded border border-red-300 bg-red-50 px-2 py-1 text-sm text-red-700"
           >
-            Add Row
-          </button>
-          <button
-            onClick={removeRow}
-            className="border rounded-md p-1 bg-[#f4ab9f] text-[#5d1715]"
+            데이터를 불러오지 못했습니다:{" "}
+            {serverPage.error instanceof Error
+              ? serverPage.error.message
+              : String(serverPage.error)}
+            <button onClick={serverPage.reload} className="underline">
+              다시 시도
+            </button>
+          </div>
+        )}
+        <div
+          ref={scrollRef}
+          // 새 페이지를 불러오는 동안에는 이전 행을 흐리게 보여준다.
+          className={`overflow-auto w-fit transition-opacity ${
+            isServerMode && serverPage.loading ? "opacity-50" : ""
+          }`}
+          aria-busy={isServerMode && serverPage.loading}
+          style={{ maxHeight }}
+          {...tableImport.dropZoneProps}
+        >
+          <table
+            role={isTree || isGrouped ? "treegrid" : "grid"}
+            aria-rowcount={rows.length + 1}
+            aria-colcount={table.getVisibleLeafColumns().length}
+            aria-multiselectable
+            onKeyDown={handleGridKeyDown}
+            onFocus={handleGridFocus}
+            {...cellRangeClipboard.gridProps}
+            className="table-fixed"
+            style={{ width: table.getTotalSize() }}
           >
-            Remove Row
-          </button>
-        </div>
-        <table>
-          <thead>
-            <SortableContext
-              items={colIds}
-              strategy={horizontalListSortingStrategy}
-            >
+            <thead className="sticky top-0 z-10 bg-white">
               {table.getHeaderGroups().map((hg) => (
-                <tr key={hg.id}>
-                  {hg.headers.map((header) =>
-                    header.column.id === "drag-handle" ? (
-                      <th
-                        key={header.id}
-                        style={{ width: header.column.getSize() }}
+                <tr key={hg.id} role="row" aria-rowindex={1}>
+                  {/* 고정 영역마다 따로 묶어, 헤더 드래그가 같은 영역 안에서만 자리를 바꾸게 한다. */}
+                  {COLUMN_REGIONS.map((region) => {
+                    const headers = hg.headers.filter(
+                      (header) => header.column.getIsPinned() === region
+                    );
+                    return (
+                      <SortableContext
+                        key={region || "center"}
+                        items={headers
+                          .filter(
+                            (header) =>
+                              header.column.id !== DRAG_HANDLE_COLUMN_ID
+                          )
+                          .map(
+                            (header) =>
+                              `${COLUMN_DND_PREFIX}${header.column.id}`
+                          )}
+                        strategy={horizontalListSortingStrategy}
                       >
-                        {flexRender(
-                          header.column.columnDef.header,
-                          header.getContext()
+                        {headers.map((header) =>
+                          header.column.id === DRAG_HANDLE_COLUMN_ID ? (
+                            <th
+                              key={header.id}
+                              style={{
+                                width: header.column.getSize(),
+                                ...getPinningStyles(header.column),
+                              }}
+                              role="columnheader"
+                              aria-colindex={1}
+                              aria-label="행 선택"
+                              {...getCellFocusProps(
+                                {
+                                  rowId: HEADER_ROW_ID,
+                                  columnId: header.column.id,
+                                },
+                                focusedCell.rowId === HEADER_ROW_ID &&
+                                  focusedCell.columnId === header.column.id
+                              )}
+                              className="focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-400"
+                            >
+                              {flexRender(
+                                header.column.columnDef.header,
+                                header.getContext()
+                              )}
+                            </th>
+                          ) : (
+                            <DraggableTableHeader
+                              key={header.id}
+                              header={header}
+                              onHeaderClick={handleHeaderClick}
+                              isSelected={selectedColumnIds.includes(
+                                header.column.id
+                              )}
+                              onToggleSelected={toggleColumnSelected}
+                              isDragBlockMember={
+                                isMultiDrag &&
+                                dragBlockIds.includes(header.column.id)
+                              }
+                              onAutoFit={autoFitColumn}
+                            />
+                          )
                         )}
-                      </th>
-                    ) : (
-                      <DraggableTableHeader
-                        key={header.id}
-                        header={header}
-                        onHeaderClick={handleHeaderClick}
-                      />
-                    )
-                  )}
+                      </SortableContext>
+                    );
+                  })}
                 </tr>
               ))}
-            </SortableContext>
-          </thead>
-          <tbody>
-            <SortableContext
-              items={rowIds}
-              strategy={verticalListSortingStrategy}
-            >
-              {table.getRowModel().rows.map((row) => (
-                <DraggableRow key={row.id} row={row} />
-              ))}
-            </SortableContext>
-          </tbody>
-        </table>
-        {/* 데이터 목록 */}
-        <pre>{JSON.stringify(data, null, 2)}</pre>
-        {/* 체크된 데이터 Ids */}
-        {/* <pre>{JSON.stringify(table.getState().rowSelection, null, 2)}</pre> */}
+            </thead>
+            <tbody>
+              <SortableContext
+                items={rowIds}
+                strategy={verticalListSortingStrategy}
+              >
+                {paddingTop > 0 && (
+                  <tr aria-hidden style={{ height: paddingTop }} />
+                )}
+                {virtualRows.map((virtualRow) => {
+                  const row = rows[virtualRow.index]!;
+                  return (
+                    <DraggableRow
+                      key={row.id}
+                      row={row}
+                      dragDisabledReason={rowDragDisabledReason}
+                      isDragBlockMember={
+                        isMultiDrag && dragBlockIds.includes(row.id)
+                      }
+                      dropIndicator={getRowDropIndicator(row.id)}
+                      virtualIndex={virtualRow.index}
+                      measureRef={rowVirtualizer.measureElement}
+                      // 헤더 행이 1번이므로 본문 행은 2번부터
+                      ariaRowIndex={virtualRow.index + 2}
+                      isTree={isTree || isGrouped}
+                      onContextMenu={openRowMenu}
+                      onDoubleClick={(row) => {
+                        if (!row.getIsGrouped()) setDetailRowId(row.id);
+                      }}
+                    />
+                  );
+                })}
+                {paddingBottom > 0 && (
+                  <tr aria-hidden style={{ height: paddingBottom }} />
+                )}
+              </SortableContext>
+            </tbody>
+            <TotalsFooter table={table} ariaRowIndex={rows.length + 2} />
+          </table>
+        </div>
+        {isPaginated ? (
+          <div className="flex items-center gap-2">
+            <PaginationFooter
+              table={table}
+              rowDropEnabled={!isRowDragDisabled}
+            />
+            {isServerMode && serverPage.loading && (
+              <span className="mt-1 text-xs text-gray-500">불러오는 중…</span>
+            )}
+          </div>
+        ) : (
+          <div className="mt-1 text-xs text-gray-500">
+            {rows.length.toLocaleString()} rows
+          </div>
+        )}
       </div>
-      {renderPopover()}
-      {renderSortPopover()}
+      {renderColumnMenu()}
+      {renderRowMenu()}
+      {renderRowDetail()}
+      {toast && (
+        <Toast
+          message={toast.message}
+          actionLabel={
+            toast.command && toast.command === history.lastCommand
+              ? "Undo"
+              : undefined
+          }
+          onAction={history.undo}
+          onClose={() => setToast(null)}
+        />
+      )}
+      {columnDialogs.columnDialog && (
+        <ColumnConfigDialog
+          title={
+            columnDialogs.columnDialog.mode === "add"
+              ? "컬럼 추가"
+              : "컬럼 수정"
+          }
+          initialConfig={columnDialogs.editingColumnConfig}
+          onSubmit={columnDialogs.submitColumnDialog}
+          onClose={columnDialogs.closeColumnDialog}
+        />
+      )}
+      {columnDialogs.rulesDialogColumn && (
+        <FormattingRulesDialog
+          column={columnDialogs.rulesDialogColumn}
+          onSubmit={columnDialogs.submitRulesDialog}
+          onClose={columnDialogs.closeRulesDialog}
+        />
+      )}
+      {cellRangeClipboard.pendingPaste && (
+        <PasteRowsDialog
+          extraRowCount={cellRangeClipboard.pendingPaste.extraRowCount}
+          onAddRows={() => cellRangeClipboard.pendingPaste?.apply(true)}
+          onPasteExisting={() => cellRangeClipboard.pendingPaste?.apply(false)}
+          onClose={cellRangeClipboard.cancelPendingPaste}
+        />
+      )}
+      {tableImport.importFile && (
+        <ImportDialog
+          file={tableImport.importFile}
+          columns={dataColumns}
+          columnDefs={dynamicColumns}
+          rowOnlyFields={rowOnlyFields}
+          onImport={tableImport.handleImport}
+          onClose={tableImport.closeImport}
+        />
+      )}
     </DndContext>
   );
 };
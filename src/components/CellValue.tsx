@@ -0,0 +1,70 @@
+import { HighlightedText } from "./HighlightedText";
+import type { CellRenderer } from "./types";
+import { formatCellText, formatColors } from "./utils/cellFormatting";
+
+// 📌 셀 렌더러가 없는 컬럼의 기본 셀 내용 (meta.renderer 에 따라 표시)
+// 글자로 보이는 부분은 전체 검색어를 하이라이트한다.
+export const CellValue = ({
+  value,
+  renderer,
+  searchQuery,
+}: {
+  value: unknown;
+  renderer?: CellRenderer;
+  searchQuery?: string;
+}) => {
+  if (value === undefined || value === null) return null;
+
+  switch (renderer?.type) {
+    case "number": {
+      const number = Number(value);
+      if (Number.isNaN(number)) break;
+      return (
+        <span className="tabular-nums">
+          <HighlightedText
+            text={formatCellText(number, renderer)}
+            query={searchQuery}
+          />
+        </span>
+      );
+    }
+    case "progress": {
+      const number = Number(value);
+      if (Number.isNaN(number)) break;
+      const max = renderer.max ?? 100;
+      const percent = Math.min(100, Math.max(0, (number / max) * 100));
+      return (
+        <span
+          className="flex items-center gap-1"
+          role="progressbar"
+          aria-valuenow={number}
+          aria-valuemin={0}
+          aria-valuemax={max}
+        >
+          <span className="h-2 flex-1 overflow-hidden rounded bg-gray-200">
+            <span
+              className="block h-full rounded bg-[#7bb781]"
+              style={{ width: `${percent}%` }}
+            />
+          </span>
+          <span className="w-8 text-right text-xs tabular-nums">
+            <HighlightedText text={String(number)} query={searchQuery} />
+          </span>
+        </span>
+      );
+    }
+    case "badge": {
+      const text = String(value);
+      const color = formatColors[renderer.colors[text] ?? "gray"];
+      return (
+        <span
+          className="rounded-full px-2 py-0.5 text-xs font-medium"
+          style={{ color: color.text, background: color.background }}
+        >
+          <HighlightedText text={text} query={searchQuery} />
+        </span>
+      );
+    }
+  }
+  return <HighlightedText text={String(value)} query={searchQuery} />;
+};
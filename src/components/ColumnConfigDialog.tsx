@@ -0,0 +1,182 @@
+import React from "react";
+import type { DynamicColumnConfig, DynamicColumnType } from "./types";
+import {
+  coerceDynamicValue,
+  dynamicColumnTypeLabels,
+} from "./utils/dynamicColumns";
+
+const inputClassName = "border rounded px-1 py-0.5 text-sm";
+
+// 다이얼로그 입력 → DynamicColumnConfig (id 는 호출하는 쪽이 정한다)
+export type ColumnConfigInput = Omit<DynamicColumnConfig, "id">;
+
+// 📌 동적 컬럼 추가 / 이름·타입 변경 다이얼로그
+export const ColumnConfigDialog = ({
+  title,
+  initialConfig,
+  onSubmit,
+  onClose,
+}: {
+  title: string;
+  initialConfig?: ColumnConfigInput;
+  onSubmit: (config: ColumnConfigInput) => void;
+  onClose: () => void;
+}) => {
+  const [name, setName] = React.useState(initialConfig?.name ?? "");
+  const [type, setType] = React.useState<DynamicColumnType>(
+    initialConfig?.type ?? "text"
+  );
+  const [optionsInput, setOptionsInput] = React.useState(
+    initialConfig?.options?.join(", ") ?? ""
+  );
+  const [defaultInput, setDefaultInput] = React.useState(
+    initialConfig?.defaultValue === undefined
+      ? ""
+      : String(initialConfig.defaultValue)
+  );
+
+  const options = optionsInput
+    .split(",")
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+  const defaultValue =
+    defaultInput === ""
+      ? undefined
+      : coerceDynamicValue(defaultInput, { type, options });
+
+  const error =
+    name.trim() === ""
+      ? "컬럼 이름을 입력하세요"
+      : type === "select" && options.length === 0
+      ? "선택지를 하나 이상 입력하세요"
+      : defaultInput !== "" && defaultValue === undefined
+      ? "기본값이 컬럼 타입과 맞지 않습니다"
+      : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error) return;
+    onSubmit({
+      name: name.trim(),
+      type,
+      options: type === "select" ? options : undefined,
+      defaultValue,
+    });
+  };
+
+  const renderDefaultInput = () => {
+    if (type === "checkbox") {
+      return (
+        <input
+          type="checkbox"
+          checked={defaultInput === "true"}
+          onChange={(e) => setDefaultInput(e.target.checked ? "true" : "")}
+        />
+      );
+    }
+    if (type === "select") {
+      return (
+        <select
+          value={defaultInput}
+          onChange={(e) => setDefaultInput(e.target.value)}
+          className={inputClassName}
+        >
+          <option value="">(없음)</option>
+          {options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    return (
+      <input
+        type={type}
+        value={defaultInput}
+        onChange={(e) => setDefaultInput(e.target.value)}
+        className={inputClassName}
+      />
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <form
+        onSubmit={handleSubmit}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onClose();
+        }}
+        className="flex flex-col gap-2 rounded bg-white p-4 shadow text-sm min-w-[280px]"
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+      >
+        <h2 className="font-bold">{title}</h2>
+        <label className="flex flex-col gap-1">
+          이름
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          타입
+          <select
+            value={type}
+            onChange={(e) => {
+              setType(e.target.value as DynamicColumnType);
+              setDefaultInput("");
+            }}
+            className={inputClassName}
+          >
+            {Object.entries(dynamicColumnTypeLabels).map(([key, label]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {type === "select" && (
+          <label className="flex flex-col gap-1">
+            선택지 (쉼표로 구분)
+            <input
+              value={optionsInput}
+              onChange={(e) => setOptionsInput(e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+        )}
+        <label className="flex flex-col gap-1">
+          기본값 (선택)
+          {renderDefaultInput()}
+        </label>
+        {error && <span className="text-xs text-red-600">{error}</span>}
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="border rounded-md px-2 py-1"
+          >
+            취소
+          </button>
+          <button
+            type="submit"
+            disabled={!!error}
+            className="border rounded-md px-2 py-1 bg-[#7bb781] text-[#1c3829] disabled:opacity-50"
+          >
+            저장
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import type { Column } from "@tanstack/react-table";
+import type {
+  RangeFilterValue,
+  SelectFilterValue,
+  TextFilterOperator,
+  TextFilterValue,
+} from "./types";
+import { textFilterOperatorLabels } from "./utils/filterFns";
+
+const inputClassName = "border rounded px-1 py-0.5 text-sm";
+
+// 숫자 입력값 → 필터 값 (빈 문자열이면 해당 경계 없음)
+const toBound = (value: string) => (value === "" ? undefined : Number(value));
+
+// 📌 컬럼 타입(meta.filterVariant)에 맞는 필터 입력 UI
+export const ColumnFilterPanel = <TData,>({
+  column,
+}: {
+  column: Column<TData, unknown>;
+}) => {
+  const variant = column.columnDef.meta?.filterVariant ?? "text";
+  const filterValue = column.getFilterValue();
+
+  const renderInputs = () => {
+    if (variant === "range") {
+      const [min, max] = (filterValue as RangeFilterValue | undefined) ?? [];
+      return (
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            placeholder="최소"
+            value={min ?? ""}
+            onChange={(e) =>
+              column.setFilterValue([toBound(e.target.value), max])
+            }
+            className={`${inputClassName} w-20`}
+          />
+          <span>~</span>
+          <input
+            type="number"
+            placeholder="최대"
+            value={max ?? ""}
+            onChange={(e) =>
+              column.setFilterValue([min, toBound(e.target.value)])
+            }
+            className={`${inputClassName} w-20`}
+          />
+        </div>
+      );
+    }
+
+    if (variant === "select") {
+      const selected = (filterValue as SelectFilterValue | undefined) ?? [];
+      const options = column.columnDef.meta?.filterOptions ?? [];
+      return (
+        <div className="flex flex-col gap-1">
+          {options.map((option) => (
+            <label key={option} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={(e) =>
+                  column.setFilterValue(
+                    e.target.checked
+                      ? [...selected, option]
+                      : selected.filter((v) => v !== option)
+                  )
+                }
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    const { operator, value } = (filterValue as
+      | TextFilterValue
+      | undefined) ?? {
+      operator: "contains",
+      value: "",
+    };
+    return (
+      <div className="flex items-center gap-1">
+        <select
+          value={operator}
+          onChange={(e) =>
+            column.setFilterValue({
+              operator: e.target.value as TextFilterOperator,
+              value,
+            })
+          }
+          className={inputClassName}
+        >
+          {Object.entries(textFilterOperatorLabels).map(([key, label]) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          autoFocus
+          value={value}
+          placeholder="검색어"
+          onChange={(e) =>
+            column.setFilterValue({ operator, value: e.target.value })
+          }
+          className={`${inputClassName} w-32`}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {renderInputs()}
+      {column.getIsFiltered() && (
+        <button
+          onClick={() => column.setFilterValue(undefined)}
+          className="text-gray-600 hover:underline text-left"
+        >
+          필터 해제
+        </button>
+      )}
+    </div>
+  );
+};
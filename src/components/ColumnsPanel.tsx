@@ -0,0 +1,66 @@
+import type { Table } from "@tanstack/react-table";
+import React from "react";
+import { ToolbarPopover } from "./ToolbarPopover";
+import { getColumnHeaderLabel } from "./utils/columnDef";
+
+// 📌 툴바 Columns 패널 - 컬럼 표시/숨김 (삭제와 달리 컬럼과 값은 그대로 남는다)
+export const ColumnsPanel = <TData,>({ table }: { table: Table<TData> }) => {
+  const [open, setOpen] = React.useState(false);
+  const [search, setSearch] = React.useState("");
+
+  // 숨길 수 없는 컬럼(드래그 핸들)은 목록에 보여주지 않는다.
+  const columns = table.getAllLeafColumns().filter((c) => c.getCanHide());
+  const hiddenCount = columns.filter((c) => !c.getIsVisible()).length;
+  const keyword = search.trim().toLowerCase();
+  const matched = columns.filter((column) =>
+    getColumnHeaderLabel(column).toLowerCase().includes(keyword)
+  );
+
+  return (
+    <ToolbarPopover
+      open={open}
+      onOpenChange={setOpen}
+      buttonLabel={
+        <>Columns{hiddenCount > 0 && ` (${hiddenCount} hidden)`} ▾</>
+      }
+      role="dialog"
+      label="컬럼 표시"
+      className="min-w-[200px]"
+    >
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="컬럼 검색"
+        className="border rounded px-1 py-0.5 text-sm"
+      />
+      <div className="flex flex-col gap-0.5 max-h-[240px] overflow-auto">
+        {matched.map((column) => (
+          <label
+            key={column.id}
+            className="flex items-center gap-1 hover:bg-gray-100 px-1 rounded"
+          >
+            <input
+              type="checkbox"
+              checked={column.getIsVisible()}
+              onChange={column.getToggleVisibilityHandler()}
+            />
+            {getColumnHeaderLabel(column)}
+          </label>
+        ))}
+        {matched.length === 0 && (
+          <span className="text-gray-400 px-1">일치하는 컬럼 없음</span>
+        )}
+      </div>
+      <div className="flex gap-2 border-t pt-1">
+        <button
+          onClick={() => table.toggleAllColumnsVisible(true)}
+          disabled={hiddenCount === 0}
+          className="text-blue-600 hover:underline disabled:opacity-40"
+        >
+          모두 표시
+        </button>
+      </div>
+    </ToolbarPopover>
+  );
+};
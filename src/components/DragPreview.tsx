@@ -0,0 +1,158 @@
+import {
+  defaultDropAnimation,
+  defaultDropAnimationSideEffects,
+  DragOverlay,
+  type DropAnimation,
+  type UniqueIdentifier,
+} from "@dnd-kit/core";
+import {
+  flexRender,
+  type Header,
+  type Row,
+  type Table,
+} from "@tanstack/react-table";
+import {
+  COLUMN_DND_PREFIX,
+  DRAG_HANDLE_COLUMN_ID,
+  ROW_DND_PREFIX,
+} from "./constants";
+
+// 📌 DragOverlay 안에 그리는 드래그 미리보기 (포인터를 따라다니는 고스트)
+// 원래 행 / 컬럼은 제자리에 흐리게 남아 놓일 위치를 보여준다.
+
+const ghostClassName =
+  "table-fixed bg-white shadow-lg ring-1 ring-blue-300 opacity-90";
+const ghostCellClassName = "overflow-hidden text-ellipsis whitespace-nowrap";
+
+// 함께 옮기는 항목이 여러 개면 오른쪽 위에 개수를 표시한다.
+const DragCountBadge = ({ count }: { count: number }) =>
+  count > 1 ? (
+    <span
+      className="absolute -right-2 -top-2 rounded-full bg-blue-600 px-1.5 text-xs font-medium text-white shadow"
+      aria-label={`${count}개 함께 이동`}
+    >
+      {count}
+    </span>
+  ) : null;
+
+// 행 고스트: 화면에 보이는 셀을 같은 너비로 그린다. (드래그 핸들 칸은 비워 둔다)
+export const RowDragPreview = <TData,>({
+  row,
+  count,
+}: {
+  row: Row<TData>;
+  count: number;
+}) => {
+  const cells = row.getVisibleCells();
+  return (
+    <div className="relative w-fit cursor-grabbing">
+      <table
+        className={ghostClassName}
+        style={{
+          width: cells.reduce((sum, cell) => sum + cell.column.getSize(), 0),
+        }}
+      >
+        <tbody>
+          <tr>
+            {cells.map((cell) => (
+              <td
+                key={cell.id}
+                style={{ width: cell.column.getSize() }}
+                className={ghostCellClassName}
+              >
+                {cell.column.id !== DRAG_HANDLE_COLUMN_ID &&
+                  flexRender(cell.column.columnDef.cell, cell.getContext())}
+              </td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+      <DragCountBadge count={count} />
+    </div>
+  );
+};
+
+// 컬럼 고스트: 헤더와 지금 렌더링된 행(rows)의 셀을 세로로 그린다.
+export const ColumnDragPreview = <TData,>({
+  header,
+  rows,
+  count,
+}: {
+  header: Header<TData, unknown>;
+  rows: Row<TData>[];
+  count: number;
+}) => (
+  <div className="relative w-fit cursor-grabbing">
+    <table className={ghostClassName} style={{ width: header.getSize() }}>
+      <thead>
+        <tr>
+          <th className={ghostCellClassName}>
+            {flexRender(header.column.columnDef.header, header.getContext())}
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => {
+          const cell = row
+            .getVisibleCells()
+            .find((c) => c.column.id === header.column.id);
+          return (
+            <tr key={row.id}>
+              <td className={ghostCellClassName}>
+                {cell &&
+                  flexRender(cell.column.columnDef.cell, cell.getContext())}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+    <DragCountBadge count={count} />
+  </div>
+);
+
+// 놓을 때 미리보기가 실제 자리로 돌아가는 동안 원래 행 / 컬럼은 흐린 채로 둔다.
+const dropAnimation: DropAnimation = {
+  ...defaultDropAnimation,
+  sideEffects: defaultDropAnimationSideEffects({
+    styles: { active: { opacity: "0.33" } },
+  }),
+};
+
+// 📌 집은 행 / 컬럼의 미리보기 (DndContext 안에 둔다)
+// rows: 화면 순서의 행, renderedRows: 지금 스크롤 영역에 렌더링된 행 (컬럼 고스트에 그린다)
+export const TableDragOverlay = <TData,>({
+  table,
+  activeId,
+  rows,
+  renderedRows,
+  count,
+}: {
+  table: Table<TData>;
+  activeId: UniqueIdentifier | null;
+  rows: Row<TData>[];
+  renderedRows: Row<TData>[];
+  count: number;
+}) => {
+  const renderPreview = () => {
+    if (!activeId) return null;
+    const id = `${activeId}`;
+    if (id.startsWith(ROW_DND_PREFIX)) {
+      const row = rows.find((r) => r.id === id.slice(ROW_DND_PREFIX.length));
+      return row ? <RowDragPreview row={row} count={count} /> : null;
+    }
+    if (id.startsWith(COLUMN_DND_PREFIX)) {
+      const header = table
+        .getFlatHeaders()
+        .find((h) => h.column.id === id.slice(COLUMN_DND_PREFIX.length));
+      return header ? (
+        <ColumnDragPreview header={header} rows={renderedRows} count={count} />
+      ) : null;
+    }
+    return null;
+  };
+
+  return (
+    <DragOverlay dropAnimation={dropAnimation}>{renderPreview()}</DragOverlay>
+  );
+};
@@ -0,0 +1,162 @@
+import { useSortable } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { flexRender, type Row } from "@tanstack/react-table";
+import React, { type CSSProperties } from "react";
+import dragHandleIcon from "/public/icons8-drag-handle-30.png";
+import {
+  DRAG_HANDLE_COLUMN_ID,
+  ROW_DND_PREFIX,
+  TREE_INDENT,
+} from "./constants";
+import { EditableCell } from "./EditableCell";
+import { getRowRuleBackground } from "./utils/cellFormatting";
+import { getDropIndicatorShadow, joinShadows } from "./utils/columnDrag";
+import { getPinningStyles } from "./utils/columnPinning";
+import { getCellFocusProps } from "./utils/keyboardNavigation";
+import type { TreeDropPosition } from "./utils/tree";
+
+// 📌 Row 드래그
+// row.id 는 BasicTable 에 넘긴 getRowId 의 결과이므로 어떤 TData 든 고유하다.
+// dragDisabledReason 이 있으면 (예: 정렬 중) 핸들이 비활성화되고 이유를 툴팁으로 보여준다.
+// dropIndicator: 드래그 중인 행이 놓일 위치 - 이 행의 앞/뒤면 선을, 하위(inside)면 테두리를 그린다.
+// 그룹 행 (컬럼 값으로 묶은 행) 은 배경으로 구분하고, 깊이만큼 들여쓴다.
+// 행 강조 서식 규칙에 맞으면 모든 셀에 그 배경을 칠한다. (고정 컬럼의 흰 배경 위에도)
+// isDragBlockMember: 선택한 여러 행을 함께 드래그하는 중이면 집은 행처럼 흐리게 표시한다.
+// 가상화된 목록에서는 virtualIndex / measureRef 로 실제 행 높이를 측정한다.
+// ariaRowIndex: 헤더를 포함한 전체 표에서의 행 번호 (1부터) - 가상화로 일부만 렌더링돼도 위치를 알린다.
+// 드래그 핸들 칸은 핸들 버튼이 포커스를 받아 Space 로 행을 집어 옮길 수 있다.
+// onContextMenu: 우클릭 (또는 Shift+F10) 으로 행 메뉴를 연다.
+// onDoubleClick: 편집할 수 없는 곳 (드래그 핸들 칸, 읽기 전용 셀) 을 더블클릭하면 행 상세를 연다.
+export const DraggableRow = <TData,>({
+  row,
+  dragDisabledReason,
+  dropIndicator,
+  isDragBlockMember = false,
+  virtualIndex,
+  measureRef,
+  ariaRowIndex,
+  isTree = false,
+  onContextMenu,
+  onDoubleClick,
+}: {
+  row: Row<TData>;
+  dragDisabledReason?: string;
+  dropIndicator?: TreeDropPosition;
+  isDragBlockMember?: boolean;
+  virtualIndex?: number;
+  measureRef?: (node: HTMLTableRowElement | null) => void;
+  ariaRowIndex?: number;
+  isTree?: boolean;
+  onContextMenu?: (e: React.MouseEvent, row: Row<TData>) => void;
+  onDoubleClick?: (row: Row<TData>) => void;
+}) => {
+  const id = `${ROW_DND_PREFIX}${row.id}`; // prefix 유지!
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id, disabled: !!dragDisabledReason });
+
+  const style: CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging || isDragBlockMember ? 0.33 : 1,
+    zIndex: isDragging ? 1 : 0,
+    position: "relative",
+  };
+  // 셀마다 그려야 고정 컬럼의 흰 배경에 가려지지 않는다.
+  const dropIndicatorShadow = getDropIndicatorShadow(
+    dropIndicator === "inside" ? undefined : dropIndicator,
+    "y"
+  );
+  const rowBackground = getRowRuleBackground(row);
+
+  return (
+    <tr
+      ref={(node) => {
+        setNodeRef(node);
+        measureRef?.(node);
+      }}
+      data-index={virtualIndex}
+      role="row"
+      aria-rowindex={ariaRowIndex}
+      aria-selected={row.getCanSelect() ? row.getIsSelected() : undefined}
+      aria-level={isTree ? row.depth + 1 : undefined}
+      aria-expanded={
+        isTree && row.getCanExpand() ? row.getIsExpanded() : undefined
+      }
+      style={style}
+      onContextMenu={(e) => onContextMenu?.(e, row)}
+      onDoubleClick={(e) => {
+        // 체크박스, 펼치기 버튼 등을 빠르게 두 번 누른 것은 무시한다.
+        if ((e.target as HTMLElement).closest("button, input, select, a")) {
+          return;
+        }
+        onDoubleClick?.(row);
+      }}
+      className={`${row.getIsGrouped() ? "bg-gray-50" : ""} ${
+        dropIndicator === "inside" ? "outline outline-2 outline-blue-400" : ""
+      }`}
+    >
+      {row.getVisibleCells().map((cell, index, cells) => {
+        if (cell.column.id !== DRAG_HANDLE_COLUMN_ID) {
+          // 첫 데이터 셀을 트리 깊이만큼 들여쓴다.
+          const isFirstDataCell =
+            index === 0 ||
+            cells[index - 1]!.column.id === DRAG_HANDLE_COLUMN_ID;
+          return (
+            <EditableCell
+              key={cell.id}
+              cell={cell}
+              indent={isFirstDataCell ? row.depth * TREE_INDENT : 0}
+              dropIndicatorShadow={dropIndicatorShadow}
+              rowBackground={rowBackground}
+            />
+          );
+        }
+        const focusedCell = cell.getContext().table.options.meta?.focusedCell;
+        const pinningStyles = getPinningStyles(cell.column);
+        return (
+          <td
+            key={cell.id}
+            style={{
+              width: cell.column.getSize(),
+              ...pinningStyles,
+              background: rowBackground ?? pinningStyles.background,
+              boxShadow: joinShadows(
+                pinningStyles.boxShadow,
+                dropIndicatorShadow
+              ),
+            }}
+            role="gridcell"
+            // 드래그 핸들 컬럼은 항상 왼쪽 맨 앞에 고정된다.
+            aria-colindex={1}
+          >
+            <div className="flex justify-end items-center gap-2">
+              <button
+                {...attributes}
+                {...listeners}
+                {...getCellFocusProps(
+                  { rowId: row.id, columnId: cell.column.id },
+                  focusedCell?.rowId === row.id &&
+                    focusedCell.columnId === cell.column.id
+                )}
+                aria-label="행 이동"
+                title={dragDisabledReason}
+                className={`focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 ${
+                  dragDisabledReason ? "opacity-30 cursor-not-allowed" : ""
+                }`}
+              >
+                <img src={dragHandleIcon} className="h-[13px] w-[13px]" />
+              </button>
+              {flexRender(cell.column.columnDef.cell, cell.getContext())}
+            </div>
+          </td>
+        );
+      })}
+    </tr>
+  );
+};
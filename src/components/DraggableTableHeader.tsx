@@ -0,0 +1,150 @@
+import { useSortable } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { flexRender, type Header } from "@tanstack/react-table";
+import React, { type CSSProperties } from "react";
+import { COLUMN_DND_PREFIX, HEADER_ROW_ID } from "./constants";
+import {
+  getColumnDropSide,
+  getDropIndicatorShadow,
+  joinShadows,
+} from "./utils/columnDrag";
+import {
+  getDisplayedColumnIndex,
+  getPinningStyles,
+} from "./utils/columnPinning";
+import { getCellFocusProps } from "./utils/keyboardNavigation";
+
+// 📌 Column 드래그 헤더
+// 오른쪽 끝의 리사이즈 핸들은 dnd-kit listeners 가 붙은 div 바깥에 있어 드래그와 겹치지 않는다.
+// 키보드 포커스는 listeners 가 붙은 div 가 받으므로 Space 로 바로 집어 옮길 수 있다.
+// Ctrl(⌘) + 클릭으로 컬럼을 선택하면 선택한 컬럼들이 함께 드래그된다. (isDragBlockMember)
+export const DraggableTableHeader = <TData,>({
+  header,
+  onHeaderClick,
+  onAutoFit,
+  isSelected = false,
+  onToggleSelected,
+  isDragBlockMember = false,
+}: {
+  header: Header<TData, unknown>;
+  onHeaderClick: (e: React.MouseEvent, columnId: string) => void;
+  onAutoFit: (columnId: string) => void;
+  isSelected?: boolean;
+  onToggleSelected?: (columnId: string) => void;
+  isDragBlockMember?: boolean;
+}) => {
+  const id = `${COLUMN_DND_PREFIX}${header.column.id}`;
+  const { attributes, listeners, setNodeRef, transform, isDragging } =
+    useSortable({ id });
+
+  const { table } = header.getContext();
+  // onEnd 모드에서는 드래그하는 동안 너비 대신 핸들 위치만 미리 보여준다.
+  const isResizing = header.column.getIsResizing();
+  const resizePreviewOffset =
+    isResizing && table.options.columnResizeMode === "onEnd"
+      ? table.getState().columnSizingInfo.deltaOffset ?? 0
+      : 0;
+
+  const pinningStyles = getPinningStyles(header.column);
+  const style: CSSProperties = {
+    transform: CSS.Translate.toString(transform),
+    transition: isResizing ? "none" : "width transform 0.2s ease-in-out",
+    opacity: isDragging || isDragBlockMember ? 0.33 : 1,
+    width: header.column.getSize(),
+    position: "relative",
+    ...pinningStyles,
+    // 드래그 중 이 컬럼의 앞/뒤에 놓일 때 세로 선
+    boxShadow: joinShadows(
+      pinningStyles.boxShadow,
+      getDropIndicatorShadow(getColumnDropSide(table, header.column), "x")
+    ),
+  };
+
+  // 정렬 방향 표시 (다중 정렬이면 우선순위 번호도 함께)
+  const sortDirection = header.column.getIsSorted();
+  const isMultiSort = table.getState().sorting.length > 1;
+  const ariaSort = !header.column.getCanSort()
+    ? undefined
+    : sortDirection === "asc"
+    ? "ascending"
+    : sortDirection === "desc"
+    ? "descending"
+    : "none";
+
+  const position = { rowId: HEADER_ROW_ID, columnId: header.column.id };
+  const focusedCell = table.options.meta?.focusedCell;
+  const isTabStop =
+    focusedCell?.rowId === position.rowId &&
+    focusedCell.columnId === position.columnId;
+
+  return (
+    <th
+      ref={setNodeRef}
+      style={style}
+      colSpan={header.colSpan}
+      className={
+        isSelected ? "bg-blue-50 hover:bg-blue-100" : "hover:bg-gray-100"
+      }
+      data-column-id={header.column.id}
+      role="columnheader"
+      aria-colindex={getDisplayedColumnIndex(table, header.column) + 1}
+      aria-sort={ariaSort}
+      aria-selected={isSelected}
+    >
+      {!header.isPlaceholder && (
+        <div
+          {...attributes}
+          {...listeners}
+          {...getCellFocusProps(position, isTabStop)}
+          aria-haspopup="menu"
+          aria-keyshortcuts="Enter Alt+ArrowDown"
+          onClick={(e) => {
+            // Shift + 클릭은 팝오버 대신 다중 정렬 토글
+            if (e.shiftKey && header.column.getCanSort()) {
+              header.column.toggleSorting(undefined, true);
+              return;
+            }
+            // Ctrl(⌘) + 클릭은 컬럼 선택 토글
+            if ((e.ctrlKey || e.metaKey) && onToggleSelected) {
+              onToggleSelected(header.column.id);
+              return;
+            }
+            onHeaderClick(e, id); // 'id' (col-컬럼ID)를 넘겨주도록 변경
+          }}
+          className="flex items-center justify-center gap-1 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+        >
+          {flexRender(header.column.columnDef.header, header.getContext())}
+          {sortDirection && (
+            <span className="text-xs text-blue-600">
+              {sortDirection === "asc" ? "▲" : "▼"}
+              {isMultiSort && header.column.getSortIndex() + 1}
+            </span>
+          )}
+          {isMultiSort && sortDirection && (
+            <span className="sr-only">
+              {header.column.getSortIndex() + 1}번째 정렬 기준
+            </span>
+          )}
+        </div>
+      )}
+      {header.column.getCanResize() && (
+        <div
+          onMouseDown={header.getResizeHandler()}
+          onTouchStart={header.getResizeHandler()}
+          // 헤더 드래그/팝오버로 이벤트가 올라가지 않도록 막는다.
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => {
+            e.stopPropagation();
+            onAutoFit(header.column.id);
+          }}
+          title="드래그: 너비 조절 / 더블클릭: 내용에 맞춤"
+          className={`absolute right-0 top-0 h-full w-1.5 cursor-col-resize select-none touch-none hover:bg-blue-300 ${
+            isResizing ? "bg-blue-500" : ""
+          }`}
+          style={{ transform: `translateX(${resizePreviewOffset}px)` }}
+        />
+      )}
+    </th>
+  );
+};
@@ -0,0 +1,272 @@
+import { flexRender, type Cell } from "@tanstack/react-table";
+import React from "react";
+import type { CellEditor } from "./types";
+import { parseCellInput, toEditorInput } from "./utils/cellEditors";
+import { getCellRuleStyles } from "./utils/cellFormatting";
+import { getColumnDragCellStyles, joinShadows } from "./utils/columnDrag";
+import { getColumnHeaderLabel } from "./utils/columnDef";
+import {
+  getDisplayedColumnIndex,
+  getPinningStyles,
+} from "./utils/columnPinning";
+import { getCellFocusProps } from "./utils/keyboardNavigation";
+
+const editorClassName = "w-full border rounded px-1 py-0.5 text-sm";
+const SELECTED_CELL_BACKGROUND = "#dbeafe";
+
+// 📌 편집 중인 셀의 입력기 (Enter 저장, Esc 취소, Tab 다음 셀)
+const CellEditorInput = ({
+  editor,
+  initialValue,
+  onCommit,
+  onCancel,
+  onTab,
+}: {
+  editor: CellEditor;
+  initialValue: unknown;
+  onCommit: (value: unknown) => void;
+  onCancel: () => void;
+  onTab: (value: unknown, direction: 1 | -1) => void;
+}) => {
+  const [input, setInput] = React.useState(() => toEditorInput(initialValue));
+  const result = parseCellInput(editor, input);
+  const error = "error" in result ? result.error : null;
+  // 키보드로 이미 저장/취소했으면 언마운트 중 발생하는 blur 는 무시한다.
+  const settledRef = React.useRef(false);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // 셀(td)의 Enter 핸들러까지 올라가지 않도록 막는다.
+    e.stopPropagation();
+    if (e.key === "Escape") {
+      e.preventDefault();
+      settledRef.current = true;
+      onCancel();
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if ("value" in result) {
+        settledRef.current = true;
+        onCommit(result.value);
+      }
+    } else if (e.key === "Tab") {
+      e.preventDefault();
+      if ("value" in result) {
+        settledRef.current = true;
+        onTab(result.value, e.shiftKey ? -1 : 1);
+      }
+    }
+  };
+
+  // 포커스가 빠지면 유효한 값만 저장하고, 아니면 취소
+  const handleBlur = () => {
+    if (settledRef.current) return;
+    settledRef.current = true;
+    if ("value" in result) onCommit(result.value);
+    else onCancel();
+  };
+
+  const commonProps = {
+    autoFocus: true,
+    value: input,
+    onKeyDown: handleKeyDown,
+    onBlur: handleBlur,
+    "aria-invalid": !!error,
+    className: `${editorClassName} ${error ? "border-red-500" : ""}`,
+  };
+
+  return (
+    <div className="flex flex-col">
+      {editor.type === "select" ? (
+        <select {...commonProps} onChange={(e) => setInput(e.target.value)}>
+          {/* 빈 값도 보여 준다. (없으면 첫 선택지가 골라진 것처럼 보이고 그것을 골라도 onChange 가 없다) */}
+          <option value="">—</option>
+          {editor.options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      ) : editor.type === "number" ? (
+        <input
+          {...commonProps}
+          type="number"
+          min={editor.min}
+          max={editor.max}
+          onChange={(e) => setInput(e.target.value)}
+        />
+      ) : (
+        <input
+          {...commonProps}
+          type={editor.type === "text" ? "text" : editor.type}
+          onChange={(e) => setInput(e.target.value)}
+        />
+      )}
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+};
+
+// 📌 그룹 행의 셀 내용
+// - 묶은 컬럼: 펼치기/접기 버튼 + 그룹 값 + 행 수
+// - 집계 컬럼: 집계 값 (aggregatedCell)
+// - 그 외 (다른 단계에서 묶은 컬럼 등): 비워 둔다.
+const GroupCellContent = <TData,>({ cell }: { cell: Cell<TData, unknown> }) => {
+  const { row } = cell;
+  if (cell.getIsGrouped()) {
+    const count = row.getLeafRows().filter((r) => !r.getIsGrouped()).length;
+    return (
+      <span className="flex items-center gap-1 font-medium">
+        <button
+          onClick={row.getToggleExpandedHandler()}
+          className="w-3 text-gray-500"
+          aria-label={`${getColumnHeaderLabel(cell.column)} 그룹 ${
+            row.getIsExpanded() ? "접기" : "펼치기"
+          }`}
+        >
+          {row.getIsExpanded() ? "▾" : "▸"}
+        </button>
+        {/* getGroupingValue 로 묶었으면 (예: 나이대) 셀 값 대신 그룹 값을 보여준다. */}
+        {cell.column.columnDef.getGroupingValue
+          ? String(row.groupingValue ?? "")
+          : flexRender(cell.column.columnDef.cell, cell.getContext())}
+        <span className="text-gray-500">({count.toLocaleString()})</span>
+      </span>
+    );
+  }
+  if (cell.getIsAggregated()) {
+    return flexRender(
+      cell.column.columnDef.aggregatedCell ?? cell.column.columnDef.cell,
+      cell.getContext()
+    );
+  }
+  return null;
+};
+
+// 📌 더블클릭 / Enter 로 편집할 수 있는 셀
+// 편집 상태와 저장은 모두 table.options.meta (BasicTable) 가 가지고 있다.
+// 그룹 행의 셀은 편집할 수 없고 그룹 값 / 집계 값을 보여준다.
+// indent: 트리 깊이에 따른 왼쪽 들여쓰기 (px)
+// dropIndicatorShadow: 행 드래그 중 이 행의 앞/뒤에 놓일 때 그리는 선 (DraggableRow)
+// rowBackground: 행 강조 서식 규칙의 배경 (DraggableRow) - 셀 규칙의 배경이 더 우선한다.
+export const EditableCell = <TData,>({
+  cell,
+  indent = 0,
+  dropIndicatorShadow,
+  rowBackground,
+}: {
+  cell: Cell<TData, unknown>;
+  indent?: number;
+  dropIndicatorShadow?: string;
+  rowBackground?: string;
+}) => {
+  const { table } = cell.getContext();
+  const meta = table.options.meta;
+  const editor = cell.column.columnDef.meta?.editor;
+  const position = { rowId: cell.row.id, columnId: cell.column.id };
+  const isEditing =
+    meta?.editingCell?.rowId === position.rowId &&
+    meta?.editingCell?.columnId === position.columnId;
+  const isTabStop =
+    meta?.focusedCell?.rowId === position.rowId &&
+    meta?.focusedCell?.columnId === position.columnId;
+  // Shift+클릭 / 드래그로 고른 셀 범위 (복사 / 붙여넣기 대상)
+  const isSelected = !!meta?.isCellSelected?.(position);
+  // 검색창의 Enter / Shift+Enter 로 옮겨 온 일치 셀
+  const isActiveSearchMatch = !!meta?.isActiveSearchMatch?.(position);
+
+  // 편집이 끝나 입력기가 사라지면 포커스를 셀로 되돌린다.
+  // (Tab 으로 다른 셀 입력기로 넘어간 경우는 그대로 둔다.)
+  const tdRef = React.useRef<HTMLTableCellElement>(null);
+  const wasEditingRef = React.useRef(false);
+  React.useEffect(() => {
+    if (
+      wasEditingRef.current &&
+      !isEditing &&
+      (!document.activeElement || document.activeElement === document.body)
+    ) {
+      tdRef.current?.focus();
+    }
+    wasEditingRef.current = isEditing;
+  }, [isEditing]);
+
+  // 하위 행이 있는 트리 행도 getIsAggregated() 가 true 이므로 그룹 행인지 따로 확인한다.
+  const isGroupRow = cell.row.getIsGrouped();
+  // updateData 가 없으면 (예: 서버 데이터 모드) 읽기 전용
+  const canEdit = !!editor && !!meta?.updateData && !isGroupRow;
+  const startEditing = () => {
+    if (canEdit) meta?.setEditingCell?.(position);
+  };
+
+  const commit = (value: unknown) => {
+    if (value !== cell.getValue()) {
+      meta?.updateData?.(position.rowId, position.columnId, value);
+    }
+    meta?.setEditingCell?.(null);
+  };
+
+  const pinningStyles = getPinningStyles(cell.column);
+  const ruleStyles = getCellRuleStyles(cell);
+
+  return (
+    <td
+      ref={tdRef}
+      style={{
+        width: cell.column.getSize(),
+        paddingLeft: 4 + indent,
+        ...pinningStyles,
+        // 선택 범위 > 셀 서식 > 행 서식 순이고, 모두 고정 컬럼의 흰 배경보다 우선한다.
+        background: isSelected
+          ? SELECTED_CELL_BACKGROUND
+          : ruleStyles.background ?? rowBackground ?? pinningStyles.background,
+        color: ruleStyles.color,
+        // 컬럼 드래그 중에는 헤더와 함께 움직인다.
+        ...getColumnDragCellStyles(
+          table,
+          cell.column,
+          joinShadows(pinningStyles.boxShadow, dropIndicatorShadow)
+        ),
+      }}
+      {...getCellFocusProps(position, isTabStop)}
+      role="gridcell"
+      aria-colindex={getDisplayedColumnIndex(table, cell.column) + 1}
+      aria-readonly={!canEdit}
+      onDoubleClick={(e) => {
+        // 편집을 시작하면 행 상세 (DraggableRow 의 더블클릭) 는 열지 않는다.
+        if (!canEdit) return;
+        e.stopPropagation();
+        startEditing();
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter" && !isEditing) {
+          e.preventDefault();
+          // 그룹 값 셀에서는 Enter 로 그룹을 펼치고 접는다.
+          if (isGroupRow && cell.getIsGrouped()) cell.row.toggleExpanded();
+          else startEditing();
+        }
+      }}
+      data-column-id={cell.column.id}
+      // 고정 너비(table-fixed) 안에서 넘치는 내용은 말줄임
+      className={`overflow-hidden text-ellipsis whitespace-nowrap focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-400 ${
+        canEdit ? "cursor-text" : ""
+      } ${isActiveSearchMatch ? "ring-2 ring-inset ring-amber-400" : ""}`}
+    >
+      {isGroupRow ? (
+        <GroupCellContent cell={cell} />
+      ) : isEditing && editor ? (
+        <CellEditorInput
+          editor={editor}
+          initialValue={cell.getValue()}
+          onCommit={commit}
+          onCancel={() => meta?.setEditingCell?.(null)}
+          onTab={(value, direction) => {
+            if (value !== cell.getValue()) {
+              meta?.updateData?.(position.rowId, position.columnId, value);
+            }
+            meta?.moveEditingCell?.(position, direction);
+          }}
+        />
+      ) : (
+        flexRender(cell.column.columnDef.cell, cell.getContext())
+      )}
+    </td>
+  );
+};
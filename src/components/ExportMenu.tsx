@@ -0,0 +1,61 @@
+import type { Table } from "@tanstack/react-table";
+import React from "react";
+import { ToolbarPopover } from "./ToolbarPopover";
+import { exportTable, type ExportFormat } from "./utils/exportTable";
+
+const formats: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "tsv", label: "TSV" },
+  { format: "json", label: "JSON" },
+  { format: "xlsx", label: "Excel (.xlsx)" },
+];
+
+// 📌 툴바 Export 메뉴
+export const ExportMenu = <TData,>({
+  table,
+  fileName,
+}: {
+  table: Table<TData>;
+  fileName?: string;
+}) => {
+  const [open, setOpen] = React.useState(false);
+  const [selectedOnly, setSelectedOnly] = React.useState(false);
+  const hasSelection = Object.keys(table.getState().rowSelection).length > 0;
+
+  return (
+    <ToolbarPopover
+      open={open}
+      onOpenChange={setOpen}
+      buttonLabel="Export ▾"
+      role="menu"
+      label="내보내기"
+      className="min-w-[160px]"
+    >
+      {formats.map(({ format, label }) => (
+        <button
+          key={format}
+          role="menuitem"
+          onClick={() => {
+            void exportTable(table, format, {
+              selectedOnly: selectedOnly && hasSelection,
+              fileName,
+            });
+            setOpen(false);
+          }}
+          className="hover:bg-gray-100 p-1 rounded text-left"
+        >
+          {label}
+        </button>
+      ))}
+      <label className="flex items-center gap-1 border-t pt-1 text-gray-600">
+        <input
+          type="checkbox"
+          checked={selectedOnly}
+          disabled={!hasSelection}
+          onChange={(e) => setSelectedOnly(e.target.checked)}
+        />
+        선택한 행만
+      </label>
+    </ToolbarPopover>
+  );
+};
@@ -0,0 +1,41 @@
+import type { Table } from "@tanstack/react-table";
+import { getColumnHeaderLabel } from "./utils/columnDef";
+import { describeFilterValue } from "./utils/filterFns";
+
+// 📌 활성 필터를 툴바 옆에 칩으로 보여주고, × 로 개별 제거
+export const FilterChips = <TData,>({ table }: { table: Table<TData> }) => {
+  const { columnFilters } = table.getState();
+  if (columnFilters.length === 0) return null;
+
+  return (
+    <>
+      {columnFilters.map((filter) => {
+        const column = table.getColumn(filter.id);
+        if (!column) return null;
+        const variant = column.columnDef.meta?.filterVariant ?? "text";
+        return (
+          <span
+            key={filter.id}
+            className="flex items-center gap-1 border rounded-full px-2 py-0.5 bg-gray-100 text-sm"
+          >
+            <b>{getColumnHeaderLabel(column)}</b>
+            {describeFilterValue(variant, filter.value)}
+            <button
+              onClick={() => column.setFilterValue(undefined)}
+              className="text-gray-500 hover:text-red-600"
+              aria-label="필터 제거"
+            >
+              ×
+            </button>
+          </span>
+        );
+      })}
+      <button
+        onClick={() => table.resetColumnFilters(true)}
+        className="text-sm text-gray-500 hover:underline"
+      >
+        필터 모두 지우기
+      </button>
+    </>
+  );
+};
@@ -0,0 +1,236 @@
+import type { Column } from "@tanstack/react-table";
+import React from "react";
+import type {
+  FormatColor,
+  FormattingRule,
+  FormattingRuleEffect,
+  FormattingRuleOperator,
+} from "./types";
+import { isNumericColumn } from "./utils/aggregation";
+import {
+  describeFormattingRule,
+  formatColors,
+  formattingRuleEffectLabels,
+  formattingRuleOperatorLabels,
+  getFormattingRuleOperators,
+} from "./utils/cellFormatting";
+import { getColumnHeaderLabel } from "./utils/columnDef";
+
+const inputClassName = "border rounded px-1 py-0.5 text-sm";
+
+// 📌 컬럼의 조건부 서식 규칙 편집 (헤더 메뉴의 "서식 규칙")
+// 규칙을 추가/삭제/순서 변경한 뒤 저장하면 한 번에 onSubmit 으로 넘긴다.
+export const FormattingRulesDialog = <TData,>({
+  column,
+  onSubmit,
+  onClose,
+}: {
+  column: Column<TData, unknown>;
+  onSubmit: (rules: FormattingRule[]) => void;
+  onClose: () => void;
+}) => {
+  const { columnDef } = column;
+  const operators = getFormattingRuleOperators(columnDef);
+  const options = columnDef.meta?.filterOptions;
+  const isNumeric = isNumericColumn(columnDef);
+
+  const [rules, setRules] = React.useState<FormattingRule[]>(
+    columnDef.meta?.rules ?? []
+  );
+  const [operator, setOperator] = React.useState<FormattingRuleOperator>(
+    operators[0]!
+  );
+  const [value, setValue] = React.useState(options?.[0] ?? "");
+  const [effect, setEffect] = React.useState<FormattingRuleEffect>("text");
+  const [color, setColor] = React.useState<FormatColor>("red");
+
+  const error =
+    isNumeric && Number.isNaN(Number(value)) ? "숫자를 입력하세요" : null;
+  const canAdd = value.trim() !== "" && !error;
+
+  const addRule = () => {
+    if (!canAdd) return;
+    setRules((prev) => [
+      ...prev,
+      { id: crypto.randomUUID(), operator, value: value.trim(), effect, color },
+    ]);
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) =>
+    setRules((prev) => {
+      const next = [...prev];
+      const [rule] = next.splice(index, 1);
+      next.splice(index + direction, 0, rule!);
+      return next;
+    });
+
+  const title = `${getColumnHeaderLabel(column)} 서식 규칙`;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSubmit(rules);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onClose();
+        }}
+        className="flex flex-col gap-2 rounded bg-white p-4 shadow text-sm min-w-[320px]"
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+      >
+        <h2 className="font-bold">{title}</h2>
+        {rules.length === 0 ? (
+          <p className="text-gray-500">규칙이 없습니다.</p>
+        ) : (
+          <ol className="flex flex-col gap-1">
+            {rules.map((rule, index) => (
+              <li key={rule.id} className="flex items-center gap-1">
+                <span
+                  className="flex-1 rounded px-1"
+                  style={
+                    rule.effect === "text"
+                      ? { color: formatColors[rule.color].text }
+                      : { background: formatColors[rule.color].background }
+                  }
+                >
+                  {describeFormattingRule(rule)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => moveRule(index, -1)}
+                  disabled={index === 0}
+                  aria-label="위로"
+                  className="px-1 text-gray-500 disabled:opacity-30"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveRule(index, 1)}
+                  disabled={index === rules.length - 1}
+                  aria-label="아래로"
+                  className="px-1 text-gray-500 disabled:opacity-30"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setRules((prev) => prev.filter((r) => r.id !== rule.id))
+                  }
+                  aria-label="규칙 삭제"
+                  className="px-1 text-gray-500 hover:text-red-600"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+        <fieldset className="flex flex-wrap items-center gap-1 border-t pt-2">
+          <legend className="sr-only">새 규칙</legend>
+          <select
+            value={operator}
+            onChange={(e) =>
+              setOperator(e.target.value as FormattingRuleOperator)
+            }
+            aria-label="조건"
+            className={inputClassName}
+          >
+            {operators.map((op) => (
+              <option key={op} value={op}>
+                {formattingRuleOperatorLabels[op]}
+              </option>
+            ))}
+          </select>
+          {options && operator !== "contains" ? (
+            <select
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              aria-label="값"
+              className={inputClassName}
+            >
+              {options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type={isNumeric ? "number" : "text"}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => {
+                // 폼 전체 저장 대신 규칙을 추가한다.
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addRule();
+                }
+              }}
+              aria-label="값"
+              className={`${inputClassName} w-24`}
+            />
+          )}
+          <span>→</span>
+          <select
+            value={effect}
+            onChange={(e) => setEffect(e.target.value as FormattingRuleEffect)}
+            aria-label="서식"
+            className={inputClassName}
+          >
+            {Object.entries(formattingRuleEffectLabels).map(([key, label]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={color}
+            onChange={(e) => setColor(e.target.value as FormatColor)}
+            aria-label="색"
+            className={inputClassName}
+          >
+            {Object.entries(formatColors).map(([key, { label }]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={addRule}
+            disabled={!canAdd}
+            className="border rounded-md px-2 py-0.5 disabled:opacity-50"
+          >
+            추가
+          </button>
+        </fieldset>
+        {error && <span className="text-xs text-red-600">{error}</span>}
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="border rounded-md px-2 py-1"
+          >
+            취소
+          </button>
+          <button
+            type="submit"
+            className="border rounded-md px-2 py-1 bg-[#7bb781] text-[#1c3829]"
+          >
+            저장
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
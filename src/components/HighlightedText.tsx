@@ -0,0 +1,35 @@
+import type React from "react";
+import { matchSearchText } from "./utils/globalSearch";
+
+// 📌 전체 검색어와 일치하는 부분을 <mark> 로 감싼다.
+// 셀 렌더러에서 table.options.meta.searchQuery 를 넘겨 쓴다.
+export const HighlightedText = ({
+  text,
+  query,
+}: {
+  text: string;
+  query?: string;
+}) => {
+  const match = query ? matchSearchText(text, query) : null;
+  if (!match) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  match.ranges.forEach(([start, end]) => {
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(
+      <mark
+        key={start}
+        // 흩어진 글자 일치는 정확도가 낮으므로 옅게 표시한다.
+        className={`rounded-sm text-inherit ${
+          match.kind === "fuzzy" ? "bg-yellow-100" : "bg-yellow-200"
+        }`}
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  if (last < text.length) parts.push(text.slice(last));
+  return <>{parts}</>;
+};
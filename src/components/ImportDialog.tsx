@@ -0,0 +1,354 @@
+import type { Column, ColumnDef } from "@tanstack/react-table";
+import React from "react";
+import type { DynamicColumnConfig, DynamicColumnType } from "./types";
+import { getColumnHeaderLabel } from "./utils/columnDef";
+import {
+  dynamicColumnTypeLabels,
+  nextDynamicColumnId,
+} from "./utils/dynamicColumns";
+import {
+  buildImportValues,
+  findMatchingColumn,
+  inferColumnType,
+  inferSelectOptions,
+  parseImportFile,
+  type ImportSource,
+  type ImportTarget,
+} from "./utils/importTable";
+
+const inputClassName = "border rounded px-1 py-0.5 text-sm";
+const PREVIEW_ROWS = 5;
+const MAX_LISTED_ERRORS = 10;
+
+// JSON 의 중첩 값은 [object Object] 대신 JSON 으로 보여준다.
+const formatPreviewValue = (value: unknown) =>
+  typeof value === "object" && value !== null
+    ? JSON.stringify(value)
+    : String(value ?? "");
+
+// 필드별 선택: 기존 컬럼 id / 새 컬럼 / 무시
+type FieldChoice =
+  | { kind: "column"; columnId: string }
+  | { kind: "new"; type: DynamicColumnType; options?: string[] }
+  | { kind: "skip" };
+
+export type ImportResult = {
+  values: Record<string, unknown>[]; // 데이터 키 → 값
+  records: Record<string, unknown>[]; // values 와 같은 순서의 원본 레코드 (id 등 매핑되지 않은 필드 참고용)
+  newColumns: DynamicColumnConfig[];
+  mode: "append" | "replace";
+};
+
+// 📌 CSV / JSON 가져오기 다이얼로그 (미리보기, 컬럼 매핑, 검증 결과)
+export const ImportDialog = <TData,>({
+  file,
+  columns,
+  columnDefs,
+  rowOnlyFields = [],
+  onImport,
+  onClose,
+}: {
+  file: File;
+  columns: Column<TData, unknown>[]; // 값을 넣을 수 있는 기존 컬럼
+  columnDefs: ColumnDef<TData>[]; // 새 동적 컬럼 id 를 겹치지 않게 만들 때 사용
+  // 행 데이터에는 있지만 컬럼이 아닌 필드 (예: 행 id) - 새 컬럼으로 만들지 않고 기본으로 가져오지 않는다.
+  rowOnlyFields?: string[];
+  onImport: (result: ImportResult) => void;
+  onClose: () => void;
+}) => {
+  const [source, setSource] = React.useState<ImportSource | null>(null);
+  const [parseError, setParseError] = React.useState<string | null>(null);
+  const [choices, setChoices] = React.useState<Record<string, FieldChoice>>({});
+  const [mode, setMode] = React.useState<ImportResult["mode"]>("append");
+  const [skipInvalidRows, setSkipInvalidRows] = React.useState(true);
+
+  // 파일을 읽는다.
+  React.useEffect(() => {
+    let cancelled = false;
+    parseImportFile(file)
+      .then((parsed) => {
+        if (!cancelled) setSource(parsed);
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setParseError(String(error));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // 기본 선택: 필드마다 같은 이름의 컬럼, 없으면 추론한 타입의 새 컬럼 (choices 에는 바꾼 필드만 들어간다)
+  // 숨긴 컬럼과 맞는 필드, 행 id 처럼 컬럼이 아닌 필드는 가져오지 않는다. (직접 고를 수는 있다)
+  const defaultChoices = React.useMemo((): Record<string, FieldChoice> => {
+    if (!source) return {};
+    return Object.fromEntries(
+      source.fields.map((field): [string, FieldChoice] => {
+        const match = findMatchingColumn(field, columns);
+        if (match) {
+          return [
+            field,
+            match.getIsVisible()
+              ? { kind: "column", columnId: match.id }
+              : { kind: "skip" },
+          ];
+        }
+        if (rowOnlyFields.includes(field)) return [field, { kind: "skip" }];
+        const inferred = inferColumnType(
+          source.records.map((record) => record[field])
+        );
+        return [field, { kind: "new", ...inferred }];
+      })
+    );
+  }, [source, columns, rowOnlyFields]);
+  const getChoice = (field: string): FieldChoice =>
+    choices[field] ?? defaultChoices[field] ?? { kind: "skip" };
+
+  // 선택 → ImportTarget (새 컬럼에는 겹치지 않는 id 를 차례로 배정)
+  const mapping = React.useMemo(() => {
+    const allocated: ColumnDef<TData>[] = [...columnDefs];
+    const result: Record<string, ImportTarget> = {};
+    for (const field of source?.fields ?? []) {
+      const choice = choices[field] ?? defaultChoices[field];
+      if (!choice || choice.kind === "skip") {
+        result[field] = { kind: "skip" };
+      } else if (choice.kind === "column") {
+        result[field] = choice;
+      } else {
+        const id = nextDynamicColumnId(allocated);
+        allocated.push({ id });
+        result[field] = {
+          kind: "new",
+          config: {
+            id,
+            name: field,
+            type: choice.type,
+            options: choice.options,
+          },
+        };
+      }
+    }
+    return result;
+  }, [source, choices, defaultChoices, columnDefs]);
+
+  const { values, errors } = React.useMemo(
+    () =>
+      source
+        ? buildImportValues(source, mapping, columns)
+        : { values: [], errors: [] },
+    [source, mapping, columns]
+  );
+  const invalidRows = new Set(errors.map((error) => error.rowIndex));
+  // 미리보기에서 잘못된 값을 표시할 칸 ("행:필드" → 오류)
+  const cellErrors = new Map(
+    errors.map((error) => [`${error.rowIndex}:${error.field}`, error.message])
+  );
+
+  const handleImport = () => {
+    if (!source) return;
+    const keep = (_: unknown, index: number) =>
+      !skipInvalidRows || !invalidRows.has(index);
+    onImport({
+      values: values.filter(keep),
+      records: source.records.filter(keep),
+      newColumns: Object.values(mapping).flatMap((target) =>
+        target.kind === "new" ? [target.config] : []
+      ),
+      mode,
+    });
+  };
+
+  const renderChoice = (field: string) => {
+    const choice = getChoice(field);
+    const value =
+      choice.kind === "column" ? `column:${choice.columnId}` : choice.kind;
+    return (
+      <div className="flex items-center gap-1">
+        <select
+          value={value}
+          onChange={(e) => {
+            const next = e.target.value;
+            setChoices((prev) => ({
+              ...prev,
+              [field]: next.startsWith("column:")
+                ? { kind: "column", columnId: next.slice("column:".length) }
+                : next === "new"
+                ? {
+                    kind: "new",
+                    ...inferColumnType(
+                      source?.records.map((record) => record[field]) ?? []
+                    ),
+                  }
+                : { kind: "skip" },
+            }));
+          }}
+          className={inputClassName}
+        >
+          {columns.map((column) => (
+            <option key={column.id} value={`column:${column.id}`}>
+              {getColumnHeaderLabel(column)}
+            </option>
+          ))}
+          <option value="new">+ 새 컬럼</option>
+          <option value="skip">(가져오지 않음)</option>
+        </select>
+        {choice.kind === "new" && (
+          <select
+            value={choice.type}
+            onChange={(e) => {
+              const type = e.target.value as DynamicColumnType;
+              // 선택 타입이면 이 필드의 값으로 선택지를 다시 만든다.
+              const options =
+                type === "select"
+                  ? inferSelectOptions(
+                      source?.records.map((record) => record[field]) ?? []
+                    )
+                  : undefined;
+              setChoices((prev) => ({
+                ...prev,
+                [field]: { kind: "new", type, options },
+              }));
+            }}
+            className={inputClassName}
+            aria-label={`${field} 타입`}
+          >
+            {Object.entries(dynamicColumnTypeLabels).map(([key, label]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    );
+  };
+
+  const renderBody = () => {
+    if (parseError) {
+      return (
+        <p className="text-red-600">파일을 읽지 못했습니다: {parseError}</p>
+      );
+    }
+    if (!source) return <p className="text-gray-500">파일을 읽는 중...</p>;
+
+    return (
+      <>
+        <p className="text-gray-600">
+          {source.records.length.toLocaleString()}개 행, {source.fields.length}
+          개 필드
+        </p>
+        <div className="overflow-auto max-h-[320px] border rounded">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                {source.fields.map((field) => (
+                  <th key={field} className="align-top text-left">
+                    <div className="font-bold">{field}</div>
+                    {renderChoice(field)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {source.records.slice(0, PREVIEW_ROWS).map((record, index) => (
+                <tr
+                  key={index}
+                  className={invalidRows.has(index) ? "bg-red-50" : ""}
+                >
+                  {source.fields.map((field) => {
+                    const error = cellErrors.get(`${index}:${field}`);
+                    return (
+                      <td
+                        key={field}
+                        title={error}
+                        className={error ? "text-red-600 font-bold" : ""}
+                      >
+                        {formatPreviewValue(record[field])}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {errors.length > 0 && (
+          <div className="text-xs text-red-600">
+            <p>
+              {invalidRows.size.toLocaleString()}개 행에서{" "}
+              {errors.length.toLocaleString()}개 값이 대상 타입과 맞지 않습니다.
+            </p>
+            <ul className="list-disc pl-4">
+              {errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                <li key={index}>
+                  {error.rowIndex + 1}행 {error.field}: {error.message}
+                </li>
+              ))}
+              {errors.length > MAX_LISTED_ERRORS && <li>...</li>}
+            </ul>
+            <label className="flex items-center gap-1 text-gray-700">
+              <input
+                type="checkbox"
+                checked={skipInvalidRows}
+                onChange={(e) => setSkipInvalidRows(e.target.checked)}
+              />
+              오류가 있는 행은 가져오지 않기 (끄면 잘못된 값만 비워 둡니다)
+            </label>
+          </div>
+        )}
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1">
+            <input
+              type="radio"
+              checked={mode === "append"}
+              onChange={() => setMode("append")}
+            />
+            기존 행 뒤에 추가
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="radio"
+              checked={mode === "replace"}
+              onChange={() => setMode("replace")}
+            />
+            기존 행 대체
+          </label>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="가져오기"
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onClose();
+        }}
+        className="flex flex-col gap-2 rounded bg-white p-4 shadow text-sm max-w-[90vw]"
+      >
+        <h2 className="font-bold">가져오기: {file.name}</h2>
+        {renderBody()}
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="border rounded-md px-2 py-1">
+            취소
+          </button>
+          <button
+            autoFocus
+            onClick={handleImport}
+            disabled={!source || values.length === 0}
+            className="border rounded-md px-2 py-1 bg-[#7bb781] text-[#1c3829] disabled:opacity-50"
+          >
+            가져오기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
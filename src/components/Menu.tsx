@@ -0,0 +1,338 @@
+import React from "react";
+import { useMenuPosition, type MenuAnchor } from "../hooks/useMenuPosition";
+import {
+  focusMenuItem,
+  handleMenuKeyDown,
+  trapFocus,
+} from "./utils/keyboardNavigation";
+import type { MenuPlacement } from "./utils/menuPosition";
+
+// 📌 메뉴 항목
+// - action (type 생략 가능): 누르면 메뉴를 닫고 onSelect 실행
+//   restoreFocus 가 false 면 닫을 때 메뉴를 연 요소로 포커스를 돌려주지 않는다. (다이얼로그를 열거나 요소가 사라질 때)
+// - radio-group: 하나를 고르는 버튼 묶음 (예: 집계)
+// - submenu: 마우스를 올리거나 Enter / → 로 여는 하위 메뉴
+// - panel: 옆에 여는 메뉴가 아닌 내용 (예: 필터 입력) - 닫지 않고 바로 반영되는 입력을 둔다.
+export type MenuItem =
+  | {
+      type?: "action";
+      id: string;
+      label: string;
+      onSelect: (e: React.MouseEvent) => void;
+      tone?: "default" | "danger" | "muted";
+      disabled?: boolean;
+      title?: string;
+      opensDialog?: boolean;
+      restoreFocus?: boolean;
+    }
+  | {
+      type: "radio-group";
+      id: string;
+      label: string;
+      options: { value: string; label: string }[];
+      value: string;
+      onSelect: (value: string) => void;
+    }
+  | {
+      type: "submenu";
+      id: string;
+      label: string;
+      items: MenuItem[];
+      // 하위 메뉴 아래에 작게 보여줄 설명
+      hint?: string;
+    }
+  | {
+      type: "panel";
+      id: string;
+      label: string;
+      // 패널의 이름 (생략하면 label)
+      title?: string;
+      render: () => React.ReactNode;
+    };
+
+const menuClassName =
+  "fixed z-50 border rounded bg-white shadow p-2 text-sm flex flex-col gap-1";
+
+const toneClassNames = {
+  default: "text-blue-600",
+  danger: "text-red-600",
+  muted: "text-gray-600",
+};
+
+// 📌 옆에 여는 내용 (panel 항목) - Esc 로 닫으면 그 항목으로 돌아간다.
+const MenuPanel = ({
+  anchor,
+  label,
+  children,
+  onBack,
+}: {
+  anchor: MenuAnchor;
+  label: string;
+  children: React.ReactNode;
+  onBack: () => void;
+}) => {
+  const { ref, style, isPositioned } = useMenuPosition(anchor, "right-start");
+
+  React.useEffect(() => {
+    if (!isPositioned) return;
+    ref.current
+      ?.querySelector<HTMLElement>("input, select, button, textarea")
+      ?.focus();
+  }, [isPositioned, ref]);
+
+  return (
+    <div
+      ref={ref}
+      role="dialog"
+      aria-label={label}
+      onKeyDown={(e) => {
+        trapFocus(e);
+        if (e.key !== "Escape") return;
+        e.preventDefault();
+        e.stopPropagation();
+        onBack();
+      }}
+      className={menuClassName}
+      style={style}
+    >
+      {children}
+    </div>
+  );
+};
+
+// 📌 메뉴 한 단계 - 열린 하위 메뉴 / 패널은 바로 뒤 형제로 그린다.
+// onBack 이 있으면 하위 메뉴: ← / Esc 로 자신만 닫고 상위 항목으로 돌아간다.
+const MenuList = ({
+  anchor,
+  placement,
+  label,
+  items,
+  hint,
+  autoFocus,
+  onClose,
+  onBack,
+}: {
+  anchor: MenuAnchor;
+  placement: MenuPlacement;
+  label: string;
+  items: MenuItem[];
+  hint?: string;
+  autoFocus: boolean;
+  onClose: (restoreFocus: boolean) => void;
+  onBack?: () => void;
+}) => {
+  const { ref, style, isPositioned } = useMenuPosition(anchor, placement);
+  // 열린 하위 메뉴 / 패널 (focus: 키보드나 클릭으로 열어 첫 항목에 포커스를 줄지)
+  const [open, setOpen] = React.useState<{
+    id: string;
+    focus: boolean;
+  } | null>(null);
+  const itemRefs = React.useRef(new Map<string, HTMLButtonElement>());
+
+  // 키보드로 열었으면 첫 항목, 아니면 메뉴 자체에 포커스 (마우스로 연 최상위 메뉴도 키를 받도록)
+  const isSubmenu = !!onBack;
+  React.useEffect(() => {
+    if (!isPositioned) return;
+    if (autoFocus) focusMenuItem(ref.current, "first");
+    else if (!isSubmenu) ref.current?.focus();
+  }, [autoFocus, isPositioned, isSubmenu, ref]);
+
+  const openItem = open && items.find((item) => item.id === open.id);
+  const openAnchor = open && itemRefs.current.get(open.id);
+
+  const closeOpenItem = () => {
+    if (!open) return;
+    setOpen(null);
+    itemRefs.current.get(open.id)?.focus();
+  };
+
+  const renderItem = (item: MenuItem) => {
+    const setItemRef = (node: HTMLButtonElement | null) => {
+      if (node) itemRefs.current.set(item.id, node);
+      else itemRefs.current.delete(item.id);
+    };
+    switch (item.type) {
+      case "radio-group":
+        return (
+          <div
+            key={item.id}
+            role="group"
+            aria-label={item.label}
+            className="flex flex-wrap items-center gap-1 border-y py-1"
+          >
+            <span className="text-gray-500">{item.label}</span>
+            {item.options.map((option) => (
+              <button
+                key={option.value}
+                role="menuitemradio"
+                aria-checked={item.value === option.value}
+                onClick={() => {
+                  onClose(true);
+                  item.onSelect(option.value);
+                }}
+                className={`rounded px-1 ${
+                  item.value === option.value
+                    ? "bg-blue-100 text-blue-800"
+                    : "text-blue-600 hover:underline"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        );
+      case "submenu":
+      case "panel": {
+        const isOpen = open?.id === item.id;
+        return (
+          <button
+            key={item.id}
+            ref={setItemRef}
+            role="menuitem"
+            aria-haspopup={item.type === "submenu" ? "menu" : "dialog"}
+            aria-expanded={isOpen}
+            // 하위 메뉴는 마우스를 올리기만 해도 열린다. (패널은 입력 중 닫히지 않도록 클릭으로만)
+            onMouseEnter={() => {
+              if (item.type === "submenu" && !isOpen) {
+                setOpen({ id: item.id, focus: false });
+              }
+            }}
+            onClick={() => setOpen({ id: item.id, focus: true })}
+            className="text-blue-600 hover:underline text-left"
+          >
+            {item.type === "submenu" ? `${item.label} ▸` : item.label}
+          </button>
+        );
+      }
+      default:
+        return (
+          <button
+            key={item.id}
+            ref={setItemRef}
+            role="menuitem"
+            aria-haspopup={item.opensDialog ? "dialog" : undefined}
+            disabled={item.disabled}
+            title={item.title}
+            // 다른 항목으로 옮겨 가면 마우스로 연 하위 메뉴를 닫는다.
+            onMouseEnter={() => {
+              if (openItem?.type === "submenu") setOpen(null);
+            }}
+            onClick={(e) => {
+              onClose(item.restoreFocus ?? true);
+              item.onSelect(e);
+            }}
+            className={`${
+              toneClassNames[item.tone ?? "default"]
+            } hover:underline text-left disabled:opacity-40 disabled:no-underline`}
+          >
+            {item.label}
+          </button>
+        );
+    }
+  };
+
+  return (
+    <>
+      <div
+        ref={ref}
+        role="menu"
+        aria-label={label}
+        tabIndex={-1}
+        onKeyDown={(e) => {
+          trapFocus(e);
+          handleMenuKeyDown(e, {
+            onClose: () => (onBack ? onBack() : onClose(true)),
+            onBack,
+            onForward: (element) => {
+              const item = items.find(
+                (i) => itemRefs.current.get(i.id) === element
+              );
+              if (item?.type === "submenu" || item?.type === "panel") {
+                setOpen({ id: item.id, focus: true });
+              }
+            },
+          });
+        }}
+        className={`${menuClassName} focus:outline-none`}
+        style={style}
+      >
+        {items.map(renderItem)}
+        {hint && <span className="text-xs text-gray-400 px-1">{hint}</span>}
+      </div>
+      {openItem?.type === "submenu" && openAnchor && (
+        <MenuList
+          anchor={openAnchor}
+          placement="right-start"
+          label={openItem.label}
+          items={openItem.items}
+          hint={openItem.hint}
+          autoFocus={open.focus}
+          onClose={onClose}
+          onBack={closeOpenItem}
+        />
+      )}
+      {openItem?.type === "panel" && openAnchor && (
+        <MenuPanel
+          anchor={openAnchor}
+          label={openItem.title ?? openItem.label}
+          onBack={closeOpenItem}
+        >
+          {openItem.render()}
+        </MenuPanel>
+      )}
+    </>
+  );
+};
+
+// 📌 기준 요소(anchor) 에 붙는 메뉴
+// 화면을 넘지 않게 자리를 잡고, 스크롤하면 기준 요소를 따라간다.
+// 바깥을 누르면 닫히고, Tab 은 열린 메뉴 안에서만 돈다.
+// onClose(restoreFocus): Esc 나 항목 선택으로 닫으면 true - 메뉴를 연 요소로 포커스를 돌려줄 때
+export const Menu = ({
+  anchor,
+  label,
+  items,
+  placement = "bottom-start",
+  autoFocus = false,
+  onClose,
+}: {
+  anchor: MenuAnchor;
+  label: string;
+  items: MenuItem[];
+  placement?: MenuPlacement;
+  // 키보드로 열었으면 첫 항목에 포커스
+  autoFocus?: boolean;
+  onClose: (restoreFocus: boolean) => void;
+}) => {
+  // 하위 메뉴와 패널도 이 안에 그려지므로 한 번에 바깥 클릭을 판단한다.
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const onCloseRef = React.useRef(onClose);
+  onCloseRef.current = onClose;
+
+  React.useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        onCloseRef.current(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  return (
+    <div
+      ref={containerRef}
+      // 메뉴 안에서 다시 우클릭해도 브라우저 메뉴를 띄우지 않는다.
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <MenuList
+        anchor={anchor}
+        placement={placement}
+        label={label}
+        items={items}
+        autoFocus={autoFocus}
+        onClose={onClose}
+      />
+    </div>
+  );
+};
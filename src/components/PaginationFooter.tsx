@@ -0,0 +1,136 @@
+import { useDroppable } from "@dnd-kit/core";
+import type { Table } from "@tanstack/react-table";
+import React from "react";
+import { NEXT_PAGE_DROP_ID, PREVIOUS_PAGE_DROP_ID } from "./constants";
+
+const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
+
+const buttonClassName =
+  "border rounded px-1.5 bg-gray-100 text-gray-700 disabled:opacity-40";
+
+// 행을 끌어다 놓을 수 있는 이전 / 다음 페이지 버튼
+const PageDropButton = ({
+  dropId,
+  dropDisabled,
+  ...buttonProps
+}: React.ButtonHTMLAttributes<HTMLButtonElement> & {
+  dropId: string;
+  dropDisabled: boolean;
+}) => {
+  const { setNodeRef, isOver } = useDroppable({
+    id: dropId,
+    disabled: dropDisabled || buttonProps.disabled,
+  });
+  return (
+    <button
+      ref={setNodeRef}
+      {...buttonProps}
+      className={`${buttonClassName} ${
+        isOver ? "outline outline-2 outline-blue-400" : ""
+      }`}
+    />
+  );
+};
+
+// 📌 페이지 이동 / 페이지 번호 입력 / 페이지 크기 선택
+// 전체 행 수는 서버 모드면 데이터 소스의 totalCount (rowCount), 아니면 필터 결과 행 수
+// rowDropEnabled 이면 행을 ‹ / › 버튼에 끌어다 놓아 이전 / 다음 페이지로 옮길 수 있다. (useTableDragAndDrop 의 handleDragEnd)
+export const PaginationFooter = <TData,>({
+  table,
+  rowDropEnabled = false,
+}: {
+  table: Table<TData>;
+  rowDropEnabled?: boolean;
+}) => {
+  const { pageIndex, pageSize } = table.getState().pagination;
+  const pageCount = Math.max(1, table.getPageCount());
+  // 입력 중인 페이지 번호 (Enter 나 포커스 이동 시 이동)
+  const [pageInput, setPageInput] = React.useState<string | null>(null);
+
+  const commitPageInput = () => {
+    if (pageInput === null) return;
+    const page = Number(pageInput);
+    if (Number.isInteger(page)) {
+      table.setPageIndex(Math.min(Math.max(page, 1), pageCount) - 1);
+    }
+    setPageInput(null);
+  };
+
+  return (
+    <nav
+      aria-label="페이지 이동"
+      className="mt-1 flex items-center gap-2 text-xs text-gray-600"
+    >
+      <button
+        onClick={() => table.firstPage()}
+        disabled={!table.getCanPreviousPage()}
+        aria-label="첫 페이지"
+        className={buttonClassName}
+      >
+        «
+      </button>
+      <PageDropButton
+        dropId={PREVIOUS_PAGE_DROP_ID}
+        dropDisabled={!rowDropEnabled}
+        onClick={() => table.previousPage()}
+        disabled={!table.getCanPreviousPage()}
+        aria-label="이전 페이지"
+        title={
+          rowDropEnabled ? "행을 놓으면 이전 페이지로 옮깁니다" : undefined
+        }
+      >
+        ‹
+      </PageDropButton>
+      <span className="flex items-center gap-1">
+        <input
+          type="number"
+          min={1}
+          max={pageCount}
+          value={pageInput ?? pageIndex + 1}
+          onChange={(e) => setPageInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitPageInput();
+            if (e.key === "Escape") setPageInput(null);
+          }}
+          onBlur={commitPageInput}
+          aria-label="페이지 번호"
+          className="border rounded w-14 px-1"
+        />
+        / {pageCount.toLocaleString()} 페이지
+      </span>
+      <PageDropButton
+        dropId={NEXT_PAGE_DROP_ID}
+        dropDisabled={!rowDropEnabled}
+        onClick={() => table.nextPage()}
+        disabled={!table.getCanNextPage()}
+        aria-label="다음 페이지"
+        title={
+          rowDropEnabled ? "행을 놓으면 다음 페이지로 옮깁니다" : undefined
+        }
+      >
+        ›
+      </PageDropButton>
+      <button
+        onClick={() => table.lastPage()}
+        disabled={!table.getCanNextPage()}
+        aria-label="마지막 페이지"
+        className={buttonClassName}
+      >
+        »
+      </button>
+      <select
+        value={pageSize}
+        onChange={(e) => table.setPageSize(Number(e.target.value))}
+        aria-label="페이지 크기"
+        className="border rounded"
+      >
+        {PAGE_SIZE_OPTIONS.map((size) => (
+          <option key={size} value={size}>
+            {size}개씩
+          </option>
+        ))}
+      </select>
+      <span>총 {table.getRowCount().toLocaleString()}행</span>
+    </nav>
+  );
+};
@@ -0,0 +1,53 @@
+// 📌 붙여넣을 행이 표의 끝을 넘을 때 새 행을 추가할지 묻는다.
+export const PasteRowsDialog = ({
+  extraRowCount,
+  onAddRows,
+  onPasteExisting,
+  onClose,
+}: {
+  extraRowCount: number;
+  onAddRows: () => void;
+  onPasteExisting: () => void;
+  onClose: () => void;
+}) => (
+  <div
+    className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+    onMouseDown={(e) => {
+      if (e.target === e.currentTarget) onClose();
+    }}
+  >
+    <div
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onClose();
+      }}
+      className="flex flex-col gap-2 rounded bg-white p-4 shadow text-sm min-w-[280px]"
+      role="alertdialog"
+      aria-modal="true"
+      aria-label="붙여넣기"
+    >
+      <h2 className="font-bold">붙여넣기</h2>
+      <p>
+        붙여넣을 내용이 표의 마지막 행보다 {extraRowCount.toLocaleString()}행 더
+        깁니다. 새 행을 추가할까요?
+      </p>
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="border rounded-md px-2 py-1">
+          취소
+        </button>
+        <button
+          onClick={onPasteExisting}
+          className="border rounded-md px-2 py-1"
+        >
+          있는 행에만 붙여넣기
+        </button>
+        <button
+          autoFocus
+          onClick={onAddRows}
+          className="border rounded-md px-2 py-1 bg-[#7bb781] text-[#1c3829]"
+        >
+          {extraRowCount.toLocaleString()}행 추가
+        </button>
+      </div>
+    </div>
+  </div>
+);
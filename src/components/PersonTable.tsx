@@ -0,0 +1,252 @@
+import type { ColumnDef } from "@tanstack/react-table";
+import React from "react";
+import { BasicTable } from "./BasicTable";
+import { makeData, type Person } from "./fixtures/makeData";
+import { createMockDataSource } from "./fixtures/mockDataSource";
+import { registerColumnMenuAction } from "./utils/columnMenu";
+import { createEnumSortingFn } from "./utils/sortingFns";
+
+// status 정렬 순서 (알파벳 순이 아니라 의미 순서)
+const statusOrder: Person["status"][] = [
+  "single",
+  "relationship",
+  "complicated",
+];
+
+const defaultPersonColumns: ColumnDef<Person>[] = [
+  {
+    accessorKey: "firstName",
+    id: "firstName",
+    header: "First Name",
+    minSize: 80,
+    maxSize: 300,
+    sortingFn: "text",
+    meta: { filterVariant: "text", editor: { type: "text", required: true } },
+  },
+  {
+    accessorKey: "lastName",
+    id: "lastName",
+    header: "Last Name",
+    minSize: 80,
+    maxSize: 300,
+    sortingFn: "text",
+    meta: { filterVariant: "text", editor: { type: "text", required: true } },
+  },
+  {
+    accessorKey: "age",
+    id: "age",
+    header: "Age",
+    size: 80,
+    minSize: 50,
+    maxSize: 150,
+    sortingFn: "number",
+    // 10살 단위로 묶는다. (그룹 행에는 "20대" 처럼 보인다)
+    getGroupingValue: (row) => `${Math.floor(row.age / 10) * 10}대`,
+    aggregationFn: "mean",
+    meta: {
+      filterVariant: "range",
+      editor: { type: "number", min: 0, max: 120, required: true },
+    },
+  },
+  {
+    accessorKey: "visits",
+    id: "visits",
+    header: "Visits",
+    sortingFn: "number",
+    aggregationFn: "sum",
+    meta: {
+      filterVariant: "range",
+      editor: { type: "number", min: 0, max: 10000, required: true },
+      renderer: { type: "number" },
+    },
+  },
+  {
+    accessorKey: "status",
+    id: "status",
+    header: "Status",
+    minSize: 100,
+    sortingFn: createEnumSortingFn(statusOrder),
+    meta: {
+      filterVariant: "select",
+      filterOptions: statusOrder,
+      editor: { type: "select", options: statusOrder, required: true },
+      renderer: {
+        type: "badge",
+        colors: {
+          single: "blue",
+          relationship: "green",
+          complicated: "orange",
+        },
+      },
+    },
+  },
+  {
+    accessorKey: "progress",
+    id: "progress",
+    header: "Profile Progress",
+    sortingFn: "number",
+    aggregationFn: "mean",
+    meta: {
+      filterVariant: "range",
+      editor: { type: "number", min: 0, max: 100, required: true },
+      renderer: { type: "progress", max: 100 },
+    },
+  },
+];
+
+// 서버 데이터 모드 데모의 모의 서버 행 수
+const MOCK_SERVER_ROW_COUNT = 1_000;
+
+// 대용량 렌더링 확인용 프리셋
+const benchmarkSizes = [100, 10_000, 100_000];
+
+// 가져온 값으로 Person 을 만든다. 빠진 필드는 기본값으로 채우고,
+// 원본에 겹치지 않는 userId 가 있으면 그대로 써서 다시 가져와도 id 가 유지되게 한다.
+const createImportedPerson = (
+  values: Record<string, unknown>,
+  record: Record<string, unknown>,
+  usedIds: ReadonlySet<string>
+): Person => {
+  const sourceId = record.userId;
+  const userId =
+    typeof sourceId === "string" && sourceId !== "" && !usedIds.has(sourceId)
+      ? sourceId
+      : crypto.randomUUID();
+  return {
+    firstName: "",
+    lastName: "",
+    age: 0,
+    visits: 0,
+    progress: 0,
+    status: "single",
+    ...values,
+    userId,
+  };
+};
+
+// 복제: 하위 행까지 새 userId 를 붙인 복사본
+const duplicatePerson = (person: Person): Person => ({
+  ...person,
+  userId: crypto.randomUUID(),
+  subRows: person.subRows?.map(duplicatePerson),
+});
+
+// 컬럼 메뉴에 동작 더하기: 화면에 보이는 행의 이 컬럼 값을 한 줄에 하나씩 복사
+registerColumnMenuAction({
+  id: "copy-values",
+  getItem: ({ table, column }) => ({
+    id: "copy-values",
+    label: "값 복사",
+    onSelect: () =>
+      void navigator.clipboard.writeText(
+        table
+          .getRowModel()
+          .rows.filter((row) => !row.getIsGrouped())
+          .map((row) => String(row.getValue(column.id) ?? ""))
+          .join("\n")
+      ),
+  }),
+});
+
+// 📌 Person 데이터로 BasicTable 을 사용하는 데모
+export const PersonTable = () => {
+  const [withSubRows, setWithSubRows] = React.useState(true);
+  const [data, setData] = React.useState(() => makeData(20, 3));
+  const [rowCount, setRowCount] = React.useState(20);
+  // 서버 데이터 모드: 정렬/필터/페이지를 모의 서버가 처리한다.
+  const [serverMode, setServerMode] = React.useState(false);
+  // 클라이언트 페이지 나누기 (서버 데이터 모드는 항상 페이지로 나뉜다)
+  const [paginate, setPaginate] = React.useState(false);
+  const mockDataSource = React.useMemo(
+    () =>
+      createMockDataSource(
+        makeData(MOCK_SERVER_ROW_COUNT),
+        defaultPersonColumns
+      ),
+    []
+  );
+
+  // 하위 행 포함이면 각 행에 3개의 하위 행을 만든다.
+  const rerender = (count: number = 20) =>
+    setData(() => (withSubRows ? makeData(count, 3) : makeData(count)));
+
+  return (
+    <BasicTable
+      data={data}
+      onDataChange={setData}
+      defaultColumns={defaultPersonColumns}
+      getRowId={(row) => row.userId}
+      getSubRows={(row) => row.subRows}
+      setSubRows={(row, subRows) => ({ ...row, subRows })}
+      storageKey="tanstack-table-demo:person-table"
+      exportFileName="people"
+      dataSource={serverMode ? mockDataSource : undefined}
+      enablePagination={paginate}
+      createRow={() => makeData(1)[0]!}
+      duplicateRow={duplicatePerson}
+      createImportedRow={createImportedPerson}
+      toolbar={
+        <>
+          <button
+            onClick={() => rerender()}
+            className="border rounded-md p-1 bg-[#5da5ce] text-[#183347]"
+          >
+            Regenerate
+          </button>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={withSubRows}
+              onChange={(e) => setWithSubRows(e.target.checked)}
+            />
+            Sub rows
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={serverMode}
+              onChange={(e) => setServerMode(e.target.checked)}
+            />
+            Server mode
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={paginate}
+              onChange={(e) => setPaginate(e.target.checked)}
+            />
+            Paginate
+          </label>
+          {/* 벤치마크용: 원하는 개수로 재생성 */}
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={rowCount}
+            onChange={(e) => setRowCount(Math.max(0, Number(e.target.value)))}
+            className="border rounded-md p-1 w-24"
+            aria-label="Row count"
+          />
+          <button
+            onClick={() => rerender(rowCount)}
+            className="border rounded-md p-1 bg-[#ecbf42] text-[#402c1b]"
+          >
+            {rowCount.toLocaleString()} Data Regenerate
+          </button>
+          {benchmarkSizes.map((size) => (
+            <button
+              key={size}
+              onClick={() => {
+                setRowCount(size);
+                rerender(size);
+              }}
+              className="border rounded-md p-1 bg-[#ecbf42] text-[#402c1b]"
+            >
+              {size.toLocaleString()}
+            </button>
+          ))}
+        </>
+      }
+    />
+  );
+};
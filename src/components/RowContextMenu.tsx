@@ -0,0 +1,95 @@
+import type { MenuAnchor } from "../hooks/useMenuPosition";
+import { Menu, type MenuItem } from "./Menu";
+
+// 📌 행 우클릭 메뉴 (Shift+F10 / 메뉴 키로도 열린다)
+// 넘기지 않은 동작은 항목이 보이지 않는다. (예: 서버 데이터 모드에서는 상세 보기만)
+// moveDisabledReason 이 있으면 (정렬 중 등) 맨 위로 / 맨 아래로 항목이 비활성화된다.
+// onClose(restoreFocus): Esc 로 닫으면 메뉴를 연 셀로 포커스를 돌려준다.
+export const RowContextMenu = ({
+  label,
+  anchor,
+  autoFocus,
+  moveDisabledReason,
+  onOpenDetails,
+  onDuplicate,
+  onInsert,
+  onMoveToEdge,
+  onDelete,
+  onClose,
+}: {
+  label: string;
+  anchor: MenuAnchor;
+  autoFocus: boolean;
+  moveDisabledReason?: string;
+  onOpenDetails: () => void;
+  onDuplicate?: () => void;
+  onInsert?: (position: "before" | "after") => void;
+  onMoveToEdge?: (edge: "first" | "last") => void;
+  onDelete?: () => void;
+  onClose: (restoreFocus: boolean) => void;
+}) => {
+  const items: MenuItem[] = [
+    {
+      id: "details",
+      label: "상세 보기",
+      opensDialog: true,
+      restoreFocus: false,
+      onSelect: onOpenDetails,
+    },
+  ];
+  if (onDuplicate) {
+    items.push({ id: "duplicate", label: "복제", onSelect: onDuplicate });
+  }
+  if (onInsert) {
+    items.push(
+      {
+        id: "insert-before",
+        label: "위에 행 삽입",
+        onSelect: () => onInsert("before"),
+      },
+      {
+        id: "insert-after",
+        label: "아래에 행 삽입",
+        onSelect: () => onInsert("after"),
+      }
+    );
+  }
+  if (onMoveToEdge) {
+    items.push(
+      {
+        id: "move-first",
+        label: "맨 위로 이동",
+        disabled: !!moveDisabledReason,
+        title: moveDisabledReason,
+        onSelect: () => onMoveToEdge("first"),
+      },
+      {
+        id: "move-last",
+        label: "맨 아래로 이동",
+        disabled: !!moveDisabledReason,
+        title: moveDisabledReason,
+        onSelect: () => onMoveToEdge("last"),
+      }
+    );
+  }
+  if (onDelete) {
+    items.push({
+      id: "delete",
+      label: "삭제",
+      tone: "danger",
+      // 행이 사라지므로 포커스를 돌려주지 않는다.
+      restoreFocus: false,
+      onSelect: onDelete,
+    });
+  }
+
+  return (
+    <Menu
+      anchor={anchor}
+      label={label}
+      items={items}
+      autoFocus={autoFocus}
+      onClose={onClose}
+    />
+  );
+};
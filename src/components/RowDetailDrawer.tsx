@@ -0,0 +1,249 @@
+import type { Column, Row } from "@tanstack/react-table";
+import React from "react";
+import { parseCellInput, toEditorInput } from "./utils/cellEditors";
+import { getColumnHeaderLabel, getRowLabel } from "./utils/columnDef";
+
+const inputClassName = "w-full border rounded px-1 py-0.5 text-sm";
+
+// 체크박스 컬럼은 boolean, 나머지는 편집기 input 의 문자열
+type FieldInput = string | boolean;
+
+const toFieldInput = <TData,>(
+  column: Column<TData, unknown>,
+  value: unknown
+): FieldInput =>
+  column.columnDef.meta?.dynamic?.type === "checkbox"
+    ? value === true
+    : toEditorInput(value);
+
+// 📌 입력 → 값 (셀 편집과 같은 검증) - 편집기가 없는 컬럼은 읽기 전용이라 null
+const parseFieldInput = <TData,>(
+  column: Column<TData, unknown>,
+  input: FieldInput
+) => {
+  const { editor, dynamic } = column.columnDef.meta ?? {};
+  if (editor) return parseCellInput(editor, String(input));
+  if (dynamic?.type === "checkbox") return { value: input === true };
+  return null;
+};
+
+// 📌 행 상세 서랍 (행 더블클릭 / 행 메뉴의 "상세 보기")
+// 숨긴 컬럼과 동적 컬럼을 포함한 모든 필드를 폼으로 보여주고, 저장하면 바뀐 필드만 onSubmit 으로 넘긴다.
+// 하위 행 / 상위 행으로 옮겨 갈 수 있다. (저장하지 않은 변경이 있으면 먼저 저장하거나 취소해야 한다)
+// readOnly: 서버 데이터 모드처럼 편집할 수 없을 때 값만 보여준다.
+export const RowDetailDrawer = <TData,>({
+  row,
+  columns,
+  readOnly = false,
+  onSubmit,
+  onSelectRow,
+  onClose,
+}: {
+  row: Row<TData>;
+  // 폼에 보여줄 컬럼 (드래그 핸들 컬럼 제외)
+  columns: Column<TData, unknown>[];
+  readOnly?: boolean;
+  onSubmit: (values: Record<string, unknown>) => void;
+  onSelectRow: (rowId: string) => void;
+  onClose: () => void;
+}) => {
+  const initialInputs = React.useMemo(
+    () =>
+      Object.fromEntries(
+        columns.map((column) => [
+          column.id,
+          toFieldInput(column, row.getValue(column.id)),
+        ])
+      ),
+    [columns, row]
+  );
+  const [inputs, setInputs] =
+    React.useState<Record<string, FieldInput>>(initialInputs);
+
+  const fields = columns.map((column) => {
+    const input = inputs[column.id] ?? "";
+    const result = readOnly ? null : parseFieldInput(column, input);
+    return {
+      column,
+      input,
+      result,
+      error: result && "error" in result ? result.error : null,
+      isDirty: input !== initialInputs[column.id],
+    };
+  });
+  const isDirty = fields.some((field) => field.isDirty);
+  const hasError = fields.some((field) => field.error);
+
+  // 열리면 첫 입력(읽기 전용이면 닫기 버튼)에 포커스
+  const formRef = React.useRef<HTMLFormElement>(null);
+  React.useEffect(() => {
+    formRef.current
+      ?.querySelector<HTMLElement>(
+        "input:not(:disabled), select:not(:disabled), button"
+      )
+      ?.focus();
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (hasError) return;
+    const values: Record<string, unknown> = {};
+    for (const { column, result, isDirty } of fields) {
+      if (isDirty && result && "value" in result) {
+        values[column.id] = result.value;
+      }
+    }
+    onSubmit(values);
+  };
+
+  const setInput = (columnId: string, input: FieldInput) =>
+    setInputs((prev) => ({ ...prev, [columnId]: input }));
+
+  const renderInput = (column: Column<TData, unknown>, input: FieldInput) => {
+    const { editor, dynamic } = column.columnDef.meta ?? {};
+    const commonProps = {
+      id: `row-detail-${column.id}`,
+      disabled: readOnly,
+    };
+    if (dynamic?.type === "checkbox") {
+      return (
+        <input
+          {...commonProps}
+          type="checkbox"
+          checked={input === true}
+          onChange={(e) => setInput(column.id, e.target.checked)}
+        />
+      );
+    }
+    if (!editor) {
+      return (
+        <output id={commonProps.id} className="block px-1 py-0.5 text-gray-600">
+          {String(input)}
+        </output>
+      );
+    }
+    if (editor.type === "select") {
+      return (
+        <select
+          {...commonProps}
+          value={String(input)}
+          onChange={(e) => setInput(column.id, e.target.value)}
+          className={inputClassName}
+        >
+          <option value="">—</option>
+          {editor.options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    return (
+      <input
+        {...commonProps}
+        type={editor.type === "text" ? "text" : editor.type}
+        min={editor.type === "number" ? editor.min : undefined}
+        max={editor.type === "number" ? editor.max : undefined}
+        value={String(input)}
+        onChange={(e) => setInput(column.id, e.target.value)}
+        className={inputClassName}
+      />
+    );
+  };
+
+  const title = `${getRowLabel(row, columns)} 상세`;
+  const parentRow = row.getParentRow();
+  const navigationTitle = isDirty
+    ? "변경 내용을 저장하거나 취소한 뒤 이동할 수 있습니다"
+    : undefined;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end bg-black/30"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <form
+        ref={formRef}
+        onSubmit={handleSubmit}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onClose();
+        }}
+        className="flex h-full w-[360px] flex-col gap-2 overflow-y-auto bg-white p-4 shadow text-sm"
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+      >
+        <h2 className="font-bold">{title}</h2>
+        {parentRow && (
+          <button
+            type="button"
+            onClick={() => onSelectRow(parentRow.id)}
+            disabled={isDirty}
+            title={navigationTitle}
+            className="w-fit text-blue-600 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            ↑ 상위 행: {getRowLabel(parentRow, columns)}
+          </button>
+        )}
+        {fields.map(({ column, input, error }) => (
+          <div key={column.id} className="flex flex-col gap-0.5">
+            <label
+              htmlFor={`row-detail-${column.id}`}
+              className="text-gray-600"
+            >
+              {getColumnHeaderLabel(column)}
+              {!column.getIsVisible() && (
+                <span className="ml-1 text-xs text-gray-400">(숨김)</span>
+              )}
+            </label>
+            {renderInput(column, input)}
+            {error && <span className="text-xs text-red-600">{error}</span>}
+          </div>
+        ))}
+        {row.subRows.length > 0 && (
+          <section className="flex flex-col gap-1 border-t pt-2">
+            <h3 className="text-gray-600">
+              하위 행 ({row.subRows.length.toLocaleString()})
+            </h3>
+            <ul className="flex flex-col gap-0.5">
+              {row.subRows.map((subRow) => (
+                <li key={subRow.id}>
+                  <button
+                    type="button"
+                    onClick={() => onSelectRow(subRow.id)}
+                    disabled={isDirty}
+                    title={navigationTitle}
+                    className="text-left text-blue-600 hover:underline disabled:opacity-50 disabled:no-underline"
+                  >
+                    {getRowLabel(subRow, columns)}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+        <div className="mt-auto flex justify-end gap-2 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="border rounded-md px-2 py-1"
+          >
+            {readOnly ? "닫기" : "취소"}
+          </button>
+          {!readOnly && (
+            <button
+              type="submit"
+              disabled={!isDirty || hasError}
+              className="border rounded-md px-2 py-1 bg-[#7bb781] text-[#1c3829] disabled:opacity-50"
+            >
+              저장
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
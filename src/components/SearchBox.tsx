@@ -0,0 +1,78 @@
+import React from "react";
+
+// 입력이 멈춘 뒤 검색을 적용하기까지 기다리는 시간 (ms)
+const SEARCH_DEBOUNCE_MS = 250;
+
+// 📌 툴바의 전체 검색창
+// 타이핑할 때마다 필터링하지 않도록 입력이 잠시 멈추면 onChange 를 부른다. (Enter 는 바로 적용)
+// Enter / Shift+Enter: 다음 / 이전 일치 셀로 이동, Esc: 검색어 지우기
+export const SearchBox = ({
+  value,
+  onChange,
+  onNavigate,
+  summary,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  onNavigate: (direction: 1 | -1) => void;
+  summary?: React.ReactNode;
+}) => {
+  const [input, setInput] = React.useState(value);
+  // 아직 적용되지 않은 입력에서 Enter 를 누르면, 검색을 적용한 뒤 이동한다.
+  const pendingNavigationRef = React.useRef<1 | -1 | null>(null);
+  // 검색어가 적용된 렌더의 onNavigate (그 검색어의 일치 목록으로 이동한다)
+  const onNavigateRef = React.useRef(onNavigate);
+  onNavigateRef.current = onNavigate;
+
+  // 밖에서 검색어가 바뀌면 (예: 지우기) 입력도 맞춘다.
+  React.useEffect(() => {
+    setInput(value);
+    const direction = pendingNavigationRef.current;
+    pendingNavigationRef.current = null;
+    if (direction) onNavigateRef.current(direction);
+  }, [value]);
+
+  React.useEffect(() => {
+    if (input === value) return;
+    const timer = window.setTimeout(() => onChange(input), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [input, value, onChange]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      const direction = e.shiftKey ? -1 : 1;
+      if (input === value) {
+        onNavigate(direction);
+      } else {
+        pendingNavigationRef.current = direction;
+        onChange(input);
+      }
+    } else if (e.key === "Escape" && input) {
+      e.preventDefault();
+      setInput("");
+      onChange("");
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="search"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search…"
+        aria-label="전체 검색"
+        aria-keyshortcuts="Enter Shift+Enter"
+        title="Enter: 다음 일치, Shift+Enter: 이전 일치, Esc: 지우기"
+        className="w-40 border rounded-md px-1 py-0.5 text-sm"
+      />
+      {value && summary && (
+        <span className="text-xs text-gray-500" aria-live="polite">
+          {summary}
+        </span>
+      )}
+    </div>
+  );
+};
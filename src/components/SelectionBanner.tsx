@@ -0,0 +1,38 @@
+import type { Table } from "@tanstack/react-table";
+
+// 📌 페이지 나누기 중 헤더 체크박스는 현재 페이지만 선택하므로,
+// Gmail 처럼 "전체 N개 행 선택" 을 이어서 제안한다. (선택은 페이지를 넘어 유지된다)
+export const SelectionBanner = <TData,>({ table }: { table: Table<TData> }) => {
+  if (table.getPageCount() <= 1) return null;
+  // 필터 결과 전체 (toggleAllRowsSelected 가 선택하는 범위와 같다)
+  const totalCount = table.getFilteredRowModel().flatRows.length;
+
+  if (table.getIsAllRowsSelected()) {
+    return (
+      <div className="mb-2 w-fit rounded bg-blue-50 px-2 py-1 text-sm text-blue-800">
+        전체 {totalCount.toLocaleString()}개 행이 모두 선택되었습니다.{" "}
+        <button
+          onClick={() => table.toggleAllRowsSelected(false)}
+          className="underline"
+        >
+          선택 해제
+        </button>
+      </div>
+    );
+  }
+  if (table.getIsAllPageRowsSelected()) {
+    return (
+      <div className="mb-2 w-fit rounded bg-blue-50 px-2 py-1 text-sm text-blue-800">
+        이 페이지의 {table.getRowModel().rows.length.toLocaleString()}개 행이
+        선택되었습니다.{" "}
+        <button
+          onClick={() => table.toggleAllRowsSelected(true)}
+          className="underline"
+        >
+          전체 {totalCount.toLocaleString()}개 행 선택
+        </button>
+      </div>
+    );
+  }
+  return null;
+};
@@ -0,0 +1,112 @@
+import type { Table } from "@tanstack/react-table";
+import React from "react";
+import type { TableHistory } from "../hooks/useHistory";
+import { ColumnsPanel } from "./ColumnsPanel";
+import { ExportMenu } from "./ExportMenu";
+import { FilterChips } from "./FilterChips";
+import { SearchBox } from "./SearchBox";
+import { ViewsMenu } from "./ViewsMenu";
+
+const primaryButtonClassName =
+  "border rounded-md p-1 bg-[#7bb781] text-[#1c3829]";
+const buttonClassName =
+  "border rounded-md p-1 bg-gray-100 text-gray-700 disabled:opacity-40";
+
+// 📌 테이블 위 툴바: 행 / 컬럼 추가·삭제, 되돌리기, 레이아웃, 보기, 가져오기 / 내보내기, 검색, 필터 칩
+// 동작은 모두 BasicTable 이 넘겨준다. onAddRow / onRemoveRow / onImportFile 이 없으면 그 버튼을 그리지 않는다.
+export const TableToolbar = <TData,>({
+  table,
+  children,
+  history,
+  onAddColumn,
+  onAddRow,
+  onRemoveRow,
+  onResetLayout,
+  viewsMenu,
+  onImportFile,
+  exportFileName,
+  search,
+}: {
+  table: Table<TData>;
+  children?: React.ReactNode; // 툴바 앞쪽에 붙일 추가 버튼들 (BasicTable 의 toolbar)
+  history: TableHistory;
+  onAddColumn: () => void;
+  onAddRow?: () => void;
+  onRemoveRow?: () => void;
+  onResetLayout: () => void;
+  viewsMenu: React.ComponentProps<typeof ViewsMenu>;
+  onImportFile?: (file: File) => void;
+  exportFileName?: string;
+  search: React.ComponentProps<typeof SearchBox>;
+}) => {
+  const importInputRef = React.useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2">
+      {children}
+      <button onClick={onAddColumn} className={primaryButtonClassName}>
+        Add Column
+      </button>
+      {onAddRow && (
+        <button onClick={onAddRow} className={primaryButtonClassName}>
+          Add Row
+        </button>
+      )}
+      {onRemoveRow && (
+        <button
+          onClick={onRemoveRow}
+          className="border rounded-md p-1 bg-[#f4ab9f] text-[#5d1715]"
+        >
+          Remove Row
+        </button>
+      )}
+      <button
+        onClick={history.undo}
+        disabled={!history.canUndo}
+        title={history.undoLabel && `Undo: ${history.undoLabel}`}
+        className={buttonClassName}
+      >
+        Undo
+      </button>
+      <button
+        onClick={history.redo}
+        disabled={!history.canRedo}
+        title={history.redoLabel && `Redo: ${history.redoLabel}`}
+        className={buttonClassName}
+      >
+        Redo
+      </button>
+      <button onClick={onResetLayout} className={buttonClassName}>
+        Reset layout
+      </button>
+      <ColumnsPanel table={table} />
+      <ViewsMenu {...viewsMenu} />
+      {onImportFile && (
+        <>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            title="CSV / JSON 파일을 테이블 위로 끌어다 놓아도 됩니다"
+            className={buttonClassName}
+          >
+            Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImportFile(file);
+              // 같은 파일을 다시 고를 수 있게 비운다.
+              e.target.value = "";
+            }}
+          />
+        </>
+      )}
+      <ExportMenu table={table} fileName={exportFileName} />
+      <SearchBox {...search} />
+      <FilterChips table={table} />
+    </div>
+  );
+};
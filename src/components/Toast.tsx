@@ -0,0 +1,45 @@
+import React from "react";
+
+// 📌 화면 아래에 잠깐 떠 있는 알림 (선택적으로 액션 버튼 하나)
+export const Toast = ({
+  message,
+  actionLabel,
+  onAction,
+  onClose,
+  duration = 5000,
+}: {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onClose: () => void;
+  duration?: number;
+}) => {
+  // 부모가 매 렌더 새 onClose 를 넘겨도 타이머가 다시 시작되지 않도록 ref 로 보관
+  const onCloseRef = React.useRef(onClose);
+  onCloseRef.current = onClose;
+
+  React.useEffect(() => {
+    const timer = window.setTimeout(() => onCloseRef.current(), duration);
+    return () => window.clearTimeout(timer);
+  }, [message, duration]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded bg-gray-800 px-4 py-2 text-sm text-white shadow"
+    >
+      <span>{message}</span>
+      {actionLabel && onAction && (
+        <button
+          onClick={() => {
+            onAction();
+            onClose();
+          }}
+          className="font-bold text-[#ecbf42] hover:underline"
+        >
+          {actionLabel}
+        </button>
+      )}
+    </div>
+  );
+};
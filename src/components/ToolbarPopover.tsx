@@ -0,0 +1,114 @@
+import React from "react";
+import { useMenuPosition, type MenuAnchor } from "../hooks/useMenuPosition";
+import { trapFocus } from "./utils/keyboardNavigation";
+
+const popoverClassName =
+  "fixed z-50 border rounded bg-white shadow p-2 text-sm flex flex-col gap-1";
+
+// 📌 열린 팝오버 - 버튼 아래에 화면을 넘지 않게 띄우고, 자리를 잡으면 첫 입력 / 버튼에 포커스
+const PopoverContent = ({
+  anchor,
+  role,
+  label,
+  className,
+  children,
+  onClose,
+}: {
+  anchor: MenuAnchor;
+  role: "menu" | "dialog";
+  label: string;
+  className?: string;
+  children: React.ReactNode;
+  onClose: () => void;
+}) => {
+  const { ref, style, isPositioned } = useMenuPosition(anchor, "bottom-start");
+
+  React.useEffect(() => {
+    if (!isPositioned) return;
+    ref.current
+      ?.querySelector<HTMLElement>("input, select, button, textarea")
+      ?.focus();
+  }, [isPositioned, ref]);
+
+  return (
+    <div
+      ref={ref}
+      role={role}
+      aria-label={label}
+      onKeyDown={(e) => {
+        trapFocus(e);
+        if (e.key !== "Escape") return;
+        e.preventDefault();
+        onClose();
+      }}
+      className={`${popoverClassName} ${className ?? ""}`}
+      style={style}
+    >
+      {children}
+    </div>
+  );
+};
+
+// 📌 툴바 버튼에 붙는 팝오버 (Columns / Views / Export)
+// 바깥을 누르면 닫히고, Esc 로 닫으면 버튼으로 포커스를 돌려준다. Tab 은 열린 팝오버 안에서만 돈다.
+// 안쪽 입력이 Esc 를 직접 쓰면 (예: 이름 변경 취소) stopPropagation 으로 팝오버까지 닫히지 않게 한다.
+export const ToolbarPopover = ({
+  open,
+  onOpenChange,
+  buttonLabel,
+  role,
+  label,
+  className,
+  children,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  buttonLabel: React.ReactNode;
+  role: "menu" | "dialog";
+  label: string; // 팝오버의 이름 (aria-label)
+  className?: string; // 팝오버에 더할 클래스 (예: 최소 너비)
+  children: React.ReactNode;
+}) => {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const [button, setButton] = React.useState<HTMLButtonElement | null>(null);
+
+  // 팝오버는 버튼과 같은 컨테이너 안에 그려지므로 한 번에 바깥 클릭을 판단한다.
+  React.useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        onOpenChange(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [open, onOpenChange]);
+
+  return (
+    <div ref={containerRef}>
+      <button
+        ref={setButton}
+        onClick={() => onOpenChange(!open)}
+        className="border rounded-md p-1 bg-gray-100 text-gray-700"
+        aria-haspopup={role}
+        aria-expanded={open}
+      >
+        {buttonLabel}
+      </button>
+      {open && button && (
+        <PopoverContent
+          anchor={button}
+          role={role}
+          label={label}
+          className={className}
+          onClose={() => {
+            onOpenChange(false);
+            button.focus();
+          }}
+        >
+          {children}
+        </PopoverContent>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import type { Table } from "@tanstack/react-table";
+import { DRAG_HANDLE_COLUMN_ID } from "./constants";
+import {
+  aggregationLabels,
+  formatAggregatedValue,
+  getAggregationChoice,
+  getColumnTotal,
+  hasColumnTotals,
+} from "./utils/aggregation";
+import { getColumnHeaderLabel } from "./utils/columnDef";
+import { getColumnDragCellStyles } from "./utils/columnDrag";
+import {
+  getDisplayedColumnIndex,
+  getPinningStyles,
+} from "./utils/columnPinning";
+
+// 📌 합계 행 (tfoot): 필터가 적용된 전체 행을 각 컬럼의 집계로 계산한다.
+// 집계할 컬럼이 없으면 그리지 않는다. ariaRowIndex: 헤더와 본문 행 다음 번호
+export const TotalsFooter = <TData,>({
+  table,
+  ariaRowIndex,
+}: {
+  table: Table<TData>;
+  ariaRowIndex: number;
+}) => {
+  if (!hasColumnTotals(table)) return null;
+  return (
+    <tfoot className="sticky bottom-0 z-10 bg-white">
+      {table.getFooterGroups().map((fg) => (
+        <tr key={fg.id} role="row" aria-rowindex={ariaRowIndex}>
+          {fg.headers.map((header) => {
+            const total = getColumnTotal(table, header.column);
+            const pinningStyles = getPinningStyles(header.column);
+            return (
+              <th
+                key={header.id}
+                role="gridcell"
+                aria-colindex={
+                  getDisplayedColumnIndex(table, header.column) + 1
+                }
+                style={{
+                  width: header.column.getSize(),
+                  ...pinningStyles,
+                  ...getColumnDragCellStyles(
+                    table,
+                    header.column,
+                    pinningStyles.boxShadow
+                  ),
+                }}
+                title={
+                  total === undefined
+                    ? undefined
+                    : `${getColumnHeaderLabel(header.column)} ${
+                        aggregationLabels[getAggregationChoice(header.column)]
+                      }`
+                }
+                className="border-t text-left"
+              >
+                {header.column.id === DRAG_HANDLE_COLUMN_ID
+                  ? "전체"
+                  : formatAggregatedValue(total)}
+              </th>
+            );
+          })}
+        </tr>
+      ))}
+    </tfoot>
+  );
+};
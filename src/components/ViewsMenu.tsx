@@ -0,0 +1,137 @@
+import React from "react";
+import { ToolbarPopover } from "./ToolbarPopover";
+import type { TableView } from "./types";
+
+const inputClassName = "border rounded px-1 py-0.5 text-sm";
+
+// 📌 툴바 Views 메뉴 - 저장된 보기 만들기 / 전환 / 이름 변경 / 덮어쓰기 / 삭제
+// 보기 내용(TableViewState)을 만들고 적용하는 일은 BasicTable 이 한다.
+export const ViewsMenu = ({
+  views,
+  activeViewId,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onRename,
+  onDelete,
+}: {
+  views: TableView[];
+  activeViewId: string | null;
+  onSelect: (viewId: string) => void;
+  onCreate: (name: string) => void;
+  onUpdate: (viewId: string) => void; // 현재 레이아웃으로 덮어쓰기
+  onRename: (viewId: string, name: string) => void;
+  onDelete: (viewId: string) => void;
+}) => {
+  const [open, setOpen] = React.useState(false);
+  const [newName, setNewName] = React.useState("");
+  const [renaming, setRenaming] = React.useState<{
+    viewId: string;
+    name: string;
+  } | null>(null);
+  const activeView = views.find((view) => view.id === activeViewId);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name);
+    setNewName("");
+  };
+
+  const commitRename = () => {
+    if (renaming && renaming.name.trim()) {
+      onRename(renaming.viewId, renaming.name.trim());
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <ToolbarPopover
+      open={open}
+      onOpenChange={setOpen}
+      buttonLabel={<>Views{activeView && `: ${activeView.name}`} ▾</>}
+      role="dialog"
+      label="저장된 보기"
+      className="min-w-[240px]"
+    >
+      {views.length === 0 && (
+        <span className="text-gray-400 px-1">저장된 보기가 없습니다</span>
+      )}
+      {views.map((view) =>
+        renaming?.viewId === view.id ? (
+          <input
+            key={view.id}
+            autoFocus
+            value={renaming.name}
+            onChange={(e) =>
+              setRenaming({ viewId: view.id, name: e.target.value })
+            }
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitRename();
+              // 이름 변경만 취소하고 팝오버는 열어 둔다.
+              if (e.key === "Escape") {
+                e.stopPropagation();
+                setRenaming(null);
+              }
+            }}
+            onBlur={commitRename}
+            aria-label="보기 이름"
+            className={inputClassName}
+          />
+        ) : (
+          <div key={view.id} className="flex items-center gap-1">
+            <button
+              onClick={() => onSelect(view.id)}
+              aria-pressed={view.id === activeViewId}
+              className={`flex-1 text-left p-1 rounded hover:bg-gray-100 ${
+                view.id === activeViewId ? "font-bold text-blue-600" : ""
+              }`}
+            >
+              {view.name}
+            </button>
+            <button
+              onClick={() => setRenaming({ viewId: view.id, name: view.name })}
+              title="이름 변경"
+              aria-label={`${view.name} 이름 변경`}
+              className="text-gray-500 hover:text-gray-800"
+            >
+              ✎
+            </button>
+            <button
+              onClick={() => onDelete(view.id)}
+              title="삭제"
+              aria-label={`${view.name} 삭제`}
+              className="text-red-500 hover:text-red-700"
+            >
+              ✕
+            </button>
+          </div>
+        )
+      )}
+      {activeView && (
+        <button
+          onClick={() => onUpdate(activeView.id)}
+          className="text-blue-600 hover:underline text-left border-t pt-1"
+        >
+          '{activeView.name}'에 현재 레이아웃 저장
+        </button>
+      )}
+      <form onSubmit={handleCreate} className="flex gap-1 border-t pt-1">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="새 보기 이름"
+          className={`${inputClassName} flex-1`}
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="border rounded-md px-2 bg-[#7bb781] text-[#1c3829] disabled:opacity-50"
+        >
+          저장
+        </button>
+      </form>
+    </ToolbarPopover>
+  );
+};
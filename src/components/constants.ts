@@ -0,0 +1,21 @@
+// 📌 테이블 공용 상수
+
+// 드래그 핸들 + 선택 체크박스가 들어가는 고정 컬럼
+export const DRAG_HANDLE_COLUMN_ID = "drag-handle";
+
+// dnd-kit 은 행/열을 같은 DndContext 에서 다루므로 id 에 prefix 를 붙여 구분한다.
+export const ROW_DND_PREFIX = "row-";
+export const COLUMN_DND_PREFIX = "col-";
+
+// 트리 한 단계 들여쓰기 (px) - 행을 이만큼 오른쪽으로 끌어 놓으면 하위 행으로 옮겨진다.
+export const TREE_INDENT = 24;
+
+// 키보드 탐색에서 헤더 행을 가리키는 id (getRowId 결과와 겹치지 않게 구분)
+export const HEADER_ROW_ID = "__header__";
+
+// PageUp / PageDown 으로 한 번에 이동하는 행 수
+export const KEYBOARD_PAGE_SIZE = 10;
+
+// 행을 끌어다 놓으면 이전 / 다음 페이지로 옮기는 페이지 이동 버튼의 dnd id
+export const PREVIOUS_PAGE_DROP_ID = "page-previous";
+export const NEXT_PAGE_DROP_ID = "page-next";
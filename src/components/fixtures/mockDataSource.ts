@@ -0,0 +1,77 @@
+import {
+  createTable,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getSortedRowModel,
+  type ColumnDef,
+} from "@tanstack/react-table";
+import type { DataSource } from "../types";
+import { getColumnDefId } from "../utils/columnDef";
+import { filterFns, withDefaultFilterFn } from "../utils/filterFns";
+import { sortingFns } from "../utils/sortingFns";
+
+type MockDataSourceOptions = {
+  latency?: number; // 응답 지연 (ms)
+  failureRate?: number; // 0~1, 오류 상태 확인용
+};
+
+// 📌 오프라인 테스트용 모의 서버
+// 행을 메모리에 두고, 정렬/필터는 테이블과 같은 정렬·필터 함수로 (헤드리스 TanStack 테이블에서) 처리한다.
+export const createMockDataSource = <TData>(
+  rows: TData[],
+  columns: ColumnDef<TData>[],
+  { latency = 300, failureRate = 0 }: MockDataSourceOptions = {}
+): DataSource<TData> => {
+  const columnIds = new Set(columns.map(getColumnDefId));
+  const table = createTable<TData>({
+    data: rows,
+    columns: columns.map(withDefaultFilterFn),
+    sortingFns,
+    filterFns,
+    globalFilterFn: "globalSearch",
+    getColumnCanGlobalFilter: () => true,
+    state: {},
+    onStateChange: () => {},
+    renderFallbackValue: null,
+    getCoreRowModel: getCoreRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+  });
+
+  return {
+    fetchPage: ({ pageIndex, pageSize, sorting, filters, search }, signal) =>
+      new Promise((resolve, reject) => {
+        const timer = window.setTimeout(() => {
+          if (Math.random() < failureRate) {
+            reject(new Error("모의 서버 오류"));
+            return;
+          }
+          // 서버가 모르는 컬럼(클라이언트에서 추가한 동적 컬럼)의 조건은 무시한다.
+          table.setOptions((prev) => ({
+            ...prev,
+            state: {
+              ...table.initialState,
+              sorting: sorting.filter((s) => columnIds.has(s.id)),
+              columnFilters: filters.filter((f) => columnIds.has(f.id)),
+              globalFilter: search && {
+                ...search,
+                columnIds: search.columnIds.filter((id) => columnIds.has(id)),
+              },
+            },
+          }));
+          const matched = table.getSortedRowModel().rows;
+          resolve({
+            rows: matched
+              .slice(pageIndex * pageSize, (pageIndex + 1) * pageSize)
+              .map((row) => row.original),
+            totalCount: matched.length,
+          });
+        }, latency);
+
+        signal.addEventListener("abort", () => {
+          window.clearTimeout(timer);
+          reject(new DOMException("Aborted", "AbortError"));
+        });
+      }),
+  };
+};
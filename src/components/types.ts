@@ -0,0 +1,210 @@
+import type {
+  ColumnFiltersState,
+  ColumnPinningState,
+  ColumnSizingState,
+  RowData,
+  SortingState,
+  VisibilityState,
+} from "@tanstack/react-table";
+
+// 📌 테이블 공용 타입
+
+// 컬럼 필터 UI 종류
+// - text: 연산자(contains/equals/startsWith) + 문자열
+// - range: 최소/최대 숫자 범위
+// - select: 허용 값 다중 선택 (filterOptions 필요)
+export type FilterVariant = "text" | "range" | "select";
+
+export type TextFilterOperator = "contains" | "equals" | "startsWith";
+
+export type TextFilterValue = {
+  operator: TextFilterOperator;
+  value: string;
+};
+
+export type RangeFilterValue = [min?: number, max?: number];
+
+export type SelectFilterValue = string[];
+
+// 셀 편집기 종류 (meta.editor 가 없으면 편집 불가)
+export type CellEditor =
+  | { type: "text"; required?: boolean }
+  | { type: "number"; min?: number; max?: number; required?: boolean }
+  | { type: "select"; options: string[]; required?: boolean }
+  | { type: "date" }
+  | { type: "url" };
+
+// 📌 셀 서식 (utils/cellFormatting)
+// 배지 색, 조건부 서식 색에 쓰는 팔레트
+export type FormatColor =
+  | "gray"
+  | "red"
+  | "orange"
+  | "yellow"
+  | "green"
+  | "blue"
+  | "purple";
+
+// 셀 렌더러가 없는 컬럼의 값 표시 방식 (meta.renderer, 없으면 값 그대로)
+// - number: 천 단위 구분 기호
+// - progress: 0 ~ max 막대
+// - badge: 값마다 색이 다른 배지 (colors 에 없는 값은 회색)
+export type CellRenderer =
+  | { type: "number"; maximumFractionDigits?: number }
+  | { type: "progress"; max?: number }
+  | { type: "badge"; colors: Record<string, FormatColor> };
+
+export type FormattingRuleOperator =
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "eq"
+  | "neq"
+  | "contains";
+
+// 조건이 맞으면 - text: 글자색, cell: 셀 배경, row: 행 전체 배경
+export type FormattingRuleEffect = "text" | "cell" | "row";
+
+// 조건부 서식 규칙 (헤더 메뉴의 "서식 규칙") - 컬럼의 meta.rules 에 저장된다.
+export type FormattingRule = {
+  id: string;
+  operator: FormattingRuleOperator;
+  value: string;
+  effect: FormattingRuleEffect;
+  color: FormatColor;
+};
+
+// 현재 편집 중인 셀 위치
+export type CellPosition = {
+  rowId: string;
+  columnId: string;
+};
+
+// 셀 범위 선택 (드래그 / Shift+클릭 / Shift+방향키) - anchor 에서 focus 까지의 사각형
+export type CellRange = {
+  anchor: CellPosition;
+  focus: CellPosition;
+};
+
+// 드래그 중인 컬럼 (blockColumnIds: 함께 옮기는 선택된 컬럼 포함)
+export type ColumnDragState = {
+  activeColumnId: string;
+  overColumnId: string | null;
+  blockColumnIds: string[];
+};
+
+// 전체 검색 (툴바 검색창) - columnIds: 검색할 컬럼 (화면에 보이는 컬럼, 보이는 순서)
+// renderers: 컬럼별 셀 렌더러 - 화면에 보이는 글자(예: 1,234)와 비교한다.
+export type GlobalSearchValue = {
+  query: string;
+  columnIds: string[];
+  renderers?: Record<string, CellRenderer>;
+};
+
+// onCellEdit 으로 전달되는 편집 내역
+export type CellEdit = CellPosition & {
+  value: unknown;
+  previousValue: unknown;
+};
+
+// 동적 컬럼 (Add Column 다이얼로그로 만든 컬럼) 의 타입
+export type DynamicColumnType =
+  | "text"
+  | "number"
+  | "select"
+  | "checkbox"
+  | "date"
+  | "url";
+
+// 동적 컬럼 정의 - ColumnDef 는 이 설정으로부터 만들어진다. (createDynamicColumn)
+// 값은 행 객체의 id 키에 저장된다.
+export type DynamicColumnConfig = {
+  id: string;
+  name: string;
+  type: DynamicColumnType;
+  options?: string[]; // select 타입의 선택지
+  defaultValue?: unknown; // 값이 없는 행에 보여줄 기본값
+};
+
+// 그룹 행 / 합계 행의 숫자 컬럼 집계 ("none" 은 집계하지 않음)
+export type AggregationChoice =
+  | "none"
+  | "sum"
+  | "mean"
+  | "min"
+  | "max"
+  | "median";
+
+// 컬럼 id → 헤더 메뉴에서 고른 집계 (없으면 ColumnDef 의 aggregationFn)
+export type ColumnAggregationState = Record<string, AggregationChoice>;
+
+// 이름 붙여 저장한 보기 - 컬럼 구성과 정렬/필터만 담고 행 데이터는 담지 않는다.
+export type TableViewState = {
+  columnVisibility: VisibilityState;
+  columnOrder: string[]; // 컬럼 id 순서
+  columnSizing: ColumnSizingState;
+  columnPinning: ColumnPinningState;
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
+};
+
+export type TableView = {
+  id: string;
+  name: string;
+  state: TableViewState;
+};
+
+// 📌 서버 데이터 모드 - 정렬/필터/페이지 나누기를 데이터 소스(백엔드)에 맡긴다.
+export type DataQuery = {
+  pageIndex: number; // 0부터
+  pageSize: number;
+  sorting: SortingState;
+  filters: ColumnFiltersState; // 값의 모양은 위의 *FilterValue 타입을 따른다.
+  search?: GlobalSearchValue; // 전체 검색 (검색어가 없으면 undefined)
+};
+
+export type DataPage<TData> = {
+  rows: TData[];
+  totalCount: number; // 필터가 적용된 전체 행 수
+};
+
+export type DataSource<TData> = {
+  // 쿼리가 빠르게 바뀌면 이전 요청의 signal 이 abort 된다.
+  fetchPage: (
+    query: DataQuery,
+    signal: AbortSignal
+  ) => Promise<DataPage<TData>>;
+};
+
+declare module "@tanstack/react-table" {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface ColumnMeta<TData extends RowData, TValue> {
+    filterVariant?: FilterVariant;
+    filterOptions?: string[];
+    editor?: CellEditor;
+    dynamic?: DynamicColumnConfig;
+    renderer?: CellRenderer;
+    rules?: FormattingRule[];
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface TableMeta<TData extends RowData> {
+    // 셀 값 변경은 모두 이 함수를 거친다. (BasicTable 의 handleCellEdit)
+    updateData?: (rowId: string, columnId: string, value: unknown) => void;
+    editingCell?: CellPosition | null;
+    setEditingCell?: (cell: CellPosition | null) => void;
+    // Tab / Shift+Tab 으로 다음/이전 편집 가능한 셀로 이동
+    moveEditingCell?: (from: CellPosition, direction: 1 | -1) => void;
+    // 키보드 탐색의 현재 셀 - Tab 으로 표에 들어오면 이 셀이 포커스를 받는다. (roving tabindex)
+    focusedCell?: CellPosition;
+    // 컬럼 드래그 중이면 본문 셀을 헤더와 함께 움직이는 데 쓴다. (utils/columnDrag)
+    columnDrag?: ColumnDragState;
+    // 전체 검색어 - 셀은 일치하는 부분을 하이라이트한다. (HighlightedText)
+    searchQuery?: string;
+    // Enter / Shift+Enter 로 옮겨 간 현재 일치 셀인지
+    isActiveSearchMatch?: (position: CellPosition) => boolean;
+    // 두 칸 이상 선택된 셀 범위에 들어 있는지 - 선택된 셀에 배경을 칠한다.
+    isCellSelected?: (position: CellPosition) => boolean;
+  }
+}
@@ -0,0 +1,91 @@
+import type { Column, ColumnDef, Table } from "@tanstack/react-table";
+import { DRAG_HANDLE_COLUMN_ID } from "../constants";
+import type { AggregationChoice, ColumnAggregationState } from "../types";
+import { getColumnDefId } from "./columnDef";
+
+// 📌 그룹 행 / 합계 행의 컬럼별 집계
+// 숫자 컬럼만 집계한다. ColumnDef 의 aggregationFn 이 기본값이고,
+// 사용자가 헤더 메뉴에서 고른 값(ColumnAggregationState)이 그보다 우선한다.
+
+export const aggregationChoices: AggregationChoice[] = [
+  "none",
+  "sum",
+  "mean",
+  "min",
+  "max",
+  "median",
+];
+
+export const aggregationLabels: Record<AggregationChoice, string> = {
+  none: "없음",
+  sum: "합계",
+  mean: "평균",
+  min: "최소",
+  max: "최대",
+  median: "중앙값",
+};
+
+export const isNumericColumn = <TData>(column: ColumnDef<TData>) =>
+  column.meta?.editor?.type === "number" ||
+  column.meta?.filterVariant === "range";
+
+// 선택한 집계를 aggregationFn 으로 넣는다.
+// TanStack 은 aggregationFn 이 없으면 "auto" (숫자면 합계) 로 집계하므로,
+// 집계하지 않을 컬럼은 aggregationFn: undefined 를 명시해 끈다.
+export const withAggregationFn = <TData>(
+  column: ColumnDef<TData>,
+  aggregations: ColumnAggregationState
+): ColumnDef<TData> => {
+  if (!isNumericColumn(column)) {
+    return { ...column, aggregationFn: undefined };
+  }
+  const choice = aggregations[getColumnDefId(column)];
+  if (choice === undefined) {
+    return { ...column, aggregationFn: column.aggregationFn };
+  }
+  return {
+    ...column,
+    aggregationFn: choice === "none" ? undefined : choice,
+  };
+};
+
+// 헤더 메뉴에 표시할 현재 집계
+export const getAggregationChoice = <TData>(
+  column: Column<TData, unknown>
+): AggregationChoice => {
+  const { aggregationFn } = column.columnDef;
+  return typeof aggregationFn === "string" &&
+    (aggregationChoices as string[]).includes(aggregationFn)
+    ? (aggregationFn as AggregationChoice)
+    : "none";
+};
+
+export const formatAggregatedValue = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "number") {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+  return String(value);
+};
+
+// 합계 행: 필터가 적용된 모든 행 (접힌 하위 행 포함) 을 컬럼의 집계 함수로 계산한다.
+// 집계하지 않는 컬럼은 undefined
+export const getColumnTotal = <TData>(
+  table: Table<TData>,
+  column: Column<TData, unknown>
+) => {
+  if (column.id === DRAG_HANDLE_COLUMN_ID) return undefined;
+  const aggregationFn = column.getAggregationFn();
+  if (!aggregationFn) return undefined;
+  const rows = table.getFilteredRowModel().flatRows;
+  return aggregationFn(column.id, rows, rows);
+};
+
+// 집계되는 컬럼이 하나라도 있으면 합계 행을 보여준다.
+export const hasColumnTotals = <TData>(table: Table<TData>) =>
+  table
+    .getVisibleLeafColumns()
+    .some(
+      (column) =>
+        column.id !== DRAG_HANDLE_COLUMN_ID && !!column.getAggregationFn()
+    );
@@ -0,0 +1,72 @@
+import type { CellEditor } from "../types";
+
+// 📌 셀 편집 입력값 → 컬럼 타입에 맞는 값 변환 + 검증
+
+export type CellEditResult = { value: unknown } | { error: string };
+
+// 셀 값 → 편집기 input 에 넣을 문자열
+export const toEditorInput = (value: unknown): string =>
+  value === undefined || value === null ? "" : String(value);
+
+// YYYY-MM-DD (input[type=date] 형식)
+export const isValidDateInput = (input: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(input) && !Number.isNaN(new Date(input).getTime());
+
+export const isValidUrl = (input: string) => {
+  try {
+    const url = new URL(input);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+export const parseCellInput = (
+  editor: CellEditor,
+  input: string
+): CellEditResult => {
+  switch (editor.type) {
+    case "number": {
+      // 필수가 아니면 비워서 값을 지울 수 있다.
+      if (input.trim() === "") {
+        return editor.required
+          ? { error: "숫자를 입력하세요" }
+          : { value: undefined };
+      }
+      const value = Number(input);
+      if (Number.isNaN(value)) return { error: "숫자가 아닙니다" };
+      if (editor.min !== undefined && value < editor.min) {
+        return { error: `${editor.min} 이상이어야 합니다` };
+      }
+      if (editor.max !== undefined && value > editor.max) {
+        return { error: `${editor.max} 이하여야 합니다` };
+      }
+      return { value };
+    }
+    case "date":
+      if (input === "") return { value: undefined };
+      if (!isValidDateInput(input)) return { error: "올바른 날짜가 아닙니다" };
+      return { value: input };
+    case "url":
+      if (input === "") return { value: undefined };
+      if (!isValidUrl(input)) return { error: "올바른 URL 이 아닙니다" };
+      return { value: input };
+    case "select":
+      // 아직 고르지 않은 값 ("—")
+      if (input === "") {
+        return editor.required
+          ? { error: "값을 고르세요" }
+          : { value: undefined };
+      }
+      if (!editor.options.includes(input)) {
+        return { error: "목록에 없는 값입니다" };
+      }
+      return { value: input };
+    case "text":
+    default:
+      if (editor.required && input.trim() === "") {
+        return { error: "값을 입력하세요" };
+      }
+      return { value: input };
+  }
+};
@@ -0,0 +1,163 @@
+import type { Cell, ColumnDef, Row } from "@tanstack/react-table";
+import type { CSSProperties } from "react";
+import type {
+  CellRenderer,
+  FormatColor,
+  FormattingRule,
+  FormattingRuleEffect,
+  FormattingRuleOperator,
+} from "../types";
+import { isNumericColumn } from "./aggregation";
+
+// 렌더러가 글자로 보여 주는 값 (전체 검색도 이 글자와 비교한다)
+export const formatCellText = (value: unknown, renderer?: CellRenderer) => {
+  if (renderer?.type === "number") {
+    const number = Number(value);
+    if (!Number.isNaN(number)) {
+      return number.toLocaleString(undefined, {
+        maximumFractionDigits: renderer.maximumFractionDigits,
+      });
+    }
+  }
+  return String(value);
+};
+
+// 📌 셀 서식: 색 팔레트와 조건부 서식 규칙
+// 규칙은 컬럼의 meta.rules 에 있고, 위에 있는 규칙이 먼저 적용된다.
+// (같은 셀에 글자색 규칙이 여러 개 맞으면 첫 번째 규칙의 색)
+
+export const formatColors: Record<
+  FormatColor,
+  { label: string; text: string; background: string }
+> = {
+  gray: { label: "회색", text: "#4b5563", background: "#f3f4f6" },
+  red: { label: "빨강", text: "#dc2626", background: "#fee2e2" },
+  orange: { label: "주황", text: "#ea580c", background: "#ffedd5" },
+  yellow: { label: "노랑", text: "#a16207", background: "#fef9c3" },
+  green: { label: "초록", text: "#16a34a", background: "#dcfce7" },
+  blue: { label: "파랑", text: "#2563eb", background: "#e0f2fe" },
+  purple: { label: "보라", text: "#9333ea", background: "#f3e8ff" },
+};
+
+export const formattingRuleOperatorLabels: Record<
+  FormattingRuleOperator,
+  string
+> = {
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  eq: "=",
+  neq: "≠",
+  contains: "포함",
+};
+
+export const formattingRuleEffectLabels: Record<FormattingRuleEffect, string> =
+  {
+    text: "글자색",
+    cell: "셀 배경",
+    row: "행 강조",
+  };
+
+// 숫자 컬럼은 크기 비교, 그 외 컬럼은 같음/다름/포함만 고를 수 있다.
+export const getFormattingRuleOperators = <TData>(
+  column: ColumnDef<TData>
+): FormattingRuleOperator[] =>
+  isNumericColumn(column)
+    ? ["gt", "gte", "lt", "lte", "eq", "neq"]
+    : ["eq", "neq", "contains"];
+
+export const describeFormattingRule = (rule: FormattingRule) =>
+  `${formattingRuleOperatorLabels[rule.operator]} ${rule.value} → ${
+    formattingRuleEffectLabels[rule.effect]
+  } ${formatColors[rule.color].label}`;
+
+// 규칙 목록을 meta.rules 에 넣은 새 ColumnDef (빈 목록이면 지운다)
+export const withFormattingRules = <TData>(
+  column: ColumnDef<TData>,
+  rules: FormattingRule[] | undefined
+): ColumnDef<TData> => ({
+  ...column,
+  meta: { ...column.meta, rules: rules?.length ? rules : undefined },
+});
+
+const matchesRule = (
+  rule: FormattingRule,
+  value: unknown,
+  numeric: boolean
+) => {
+  if (value === undefined || value === null) return false;
+  if (numeric) {
+    const actual = Number(value);
+    const expected = Number(rule.value);
+    if (Number.isNaN(actual) || Number.isNaN(expected)) return false;
+    switch (rule.operator) {
+      case "gt":
+        return actual > expected;
+      case "gte":
+        return actual >= expected;
+      case "lt":
+        return actual < expected;
+      case "lte":
+        return actual <= expected;
+      case "eq":
+        return actual === expected;
+      case "neq":
+        return actual !== expected;
+      default:
+        return false;
+    }
+  }
+  const actual = String(value).toLowerCase();
+  const expected = rule.value.toLowerCase();
+  switch (rule.operator) {
+    case "eq":
+      return actual === expected;
+    case "neq":
+      return actual !== expected;
+    case "contains":
+      return actual.includes(expected);
+    default:
+      return false;
+  }
+};
+
+const findMatchingRule = <TData>(
+  column: ColumnDef<TData>,
+  value: unknown,
+  effect: FormattingRuleEffect
+) =>
+  column.meta?.rules?.find(
+    (rule) =>
+      rule.effect === effect &&
+      matchesRule(rule, value, isNumericColumn(column))
+  );
+
+// 셀 규칙 (글자색, 셀 배경) - 그룹 행은 값이 집계 값이므로 적용하지 않는다.
+export const getCellRuleStyles = <TData>(
+  cell: Cell<TData, unknown>
+): CSSProperties => {
+  if (cell.row.getIsGrouped()) return {};
+  const { columnDef } = cell.column;
+  const value = cell.getValue();
+  const text = findMatchingRule(columnDef, value, "text");
+  const background = findMatchingRule(columnDef, value, "cell");
+  return {
+    color: text && formatColors[text.color].text,
+    background: background && formatColors[background.color].background,
+  };
+};
+
+// 행 강조 규칙 - 숨긴 컬럼의 규칙도 적용된다. (맞는 규칙이 없으면 undefined)
+export const getRowRuleBackground = <TData>(row: Row<TData>) => {
+  if (row.getIsGrouped()) return undefined;
+  for (const cell of row.getAllCells()) {
+    const rule = findMatchingRule(
+      cell.column.columnDef,
+      cell.getValue(),
+      "row"
+    );
+    if (rule) return formatColors[rule.color].background;
+  }
+  return undefined;
+};
@@ -0,0 +1,119 @@
+import type { Column, Row } from "@tanstack/react-table";
+import type { CellEditor, CellRange } from "../types";
+import { parseCellInput, type CellEditResult } from "./cellEditors";
+import { parseDelimited } from "./importTable";
+
+// 📌 셀 범위 선택과 복사 / 붙여넣기 (스프레드시트와 주고받는 TSV)
+// 범위는 화면 순서의 행(rows)과 컬럼(columns)에서 anchor ~ focus 사각형이다.
+
+export type CellRangeArea<TData> = {
+  rows: Row<TData>[];
+  columns: Column<TData, unknown>[];
+};
+
+// anchor / focus 가 화면에 없으면 (필터, 컬럼 숨김 등) null
+export const getCellRangeArea = <TData>(
+  { anchor, focus }: CellRange,
+  rows: Row<TData>[],
+  columns: Column<TData, unknown>[]
+): CellRangeArea<TData> | null => {
+  const anchorRow = rows.findIndex((r) => r.id === anchor.rowId);
+  const focusRow = rows.findIndex((r) => r.id === focus.rowId);
+  const anchorColumn = columns.findIndex((c) => c.id === anchor.columnId);
+  const focusColumn = columns.findIndex((c) => c.id === focus.columnId);
+  if ([anchorRow, focusRow, anchorColumn, focusColumn].includes(-1)) {
+    return null;
+  }
+  return {
+    rows: rows.slice(
+      Math.min(anchorRow, focusRow),
+      Math.max(anchorRow, focusRow) + 1
+    ),
+    columns: columns.slice(
+      Math.min(anchorColumn, focusColumn),
+      Math.max(anchorColumn, focusColumn) + 1
+    ),
+  };
+};
+
+const toClipboardText = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// 엑셀과 같이 탭/줄바꿈/따옴표가 있는 값만 따옴표로 감싼다. (붙여넣기에서 그대로 되돌릴 수 있다)
+const escapeClipboardCell = (value: unknown) => {
+  const text = toClipboardText(value);
+  return /["\t\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toClipboardTsv = <TData>({
+  rows,
+  columns,
+}: CellRangeArea<TData>) =>
+  rows
+    .map((row) =>
+      columns
+        .map((column) => escapeClipboardCell(row.getValue(column.id)))
+        .join("\t")
+    )
+    .join("\r\n");
+
+// 빈 줄도 한 행으로 센다. (빈 칸만 있는 행을 복사해 붙여넣어도 줄이 밀리지 않게)
+export const parseClipboardTsv = (text: string) =>
+  parseDelimited(text.replace(/\r?\n$/, ""), "\t", { skipEmptyRows: false });
+
+// 날짜로 읽을 수 있는 값을 YYYY-MM-DD 로 (시간대 때문에 하루 밀리지 않도록 로컬 날짜로)
+const toDateInput = (input: string) => {
+  const date = new Date(input);
+  if (Number.isNaN(date.getTime())) return input;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+};
+
+// 스프레드시트에서 흔한 표기를 편집기 입력 형식으로 맞춘다. (천 단위 쉼표, 대소문자가 다른 선택지 등)
+const coercePastedInput = (editor: CellEditor, text: string) => {
+  const input = text.trim();
+  switch (editor.type) {
+    case "number":
+      return input.replace(/,/g, "");
+    case "date":
+      return input === "" || /^\d{4}-\d{2}-\d{2}$/.test(input)
+        ? input
+        : toDateInput(input);
+    case "select":
+      return (
+        editor.options.find(
+          (option) => option.toLowerCase() === input.toLowerCase()
+        ) ?? input
+      );
+    case "url":
+      return input;
+    case "text":
+    default:
+      return text;
+  }
+};
+
+const TRUE_INPUTS = ["true", "1", "y", "yes", "on"];
+const FALSE_INPUTS = ["false", "0", "n", "no", "off", ""];
+
+// 붙여넣은 문자열 → 컬럼 타입의 값 (셀 편집과 같은 검증을 거친다)
+export const parsePastedValue = <TData>(
+  column: Column<TData, unknown>,
+  text: string
+): CellEditResult => {
+  const { editor, dynamic } = column.columnDef.meta ?? {};
+  if (editor) return parseCellInput(editor, coercePastedInput(editor, text));
+  // 체크박스 컬럼은 편집기 없이 셀에서 바로 토글한다.
+  if (dynamic?.type === "checkbox") {
+    const input = text.trim().toLowerCase();
+    if (TRUE_INPUTS.includes(input)) return { value: true };
+    if (FALSE_INPUTS.includes(input)) return { value: false };
+    return { error: "true / false 가 아닙니다" };
+  }
+  return { error: "편집할 수 없는 컬럼입니다" };
+};
@@ -0,0 +1,64 @@
+import type { Column, ColumnDef, Row } from "@tanstack/react-table";
+
+// 📌 ColumnDef 에서 TanStack 과 동일한 규칙으로 컬럼 id 를 얻는다.
+// (id 가 없으면 accessorKey 를 id 로 사용)
+export const getColumnDefId = <TData>(column: ColumnDef<TData>): string => {
+  if (column.id) return column.id;
+  if ("accessorKey" in column && column.accessorKey !== undefined) {
+    return String(column.accessorKey);
+  }
+  return "";
+};
+
+// id 순서(order)대로 컬럼 정의를 정렬한다. order 에 없는 컬럼은 원래 순서대로 뒤에 둔다.
+export const sortColumnsByOrder = <TData>(
+  columns: ColumnDef<TData>[],
+  order: string[]
+): ColumnDef<TData>[] => {
+  const orderIndex = (column: ColumnDef<TData>) => {
+    const index = order.indexOf(getColumnDefId(column));
+    return index === -1 ? order.length : index;
+  };
+  return [...columns].sort((a, b) => orderIndex(a) - orderIndex(b));
+};
+
+// 📌 사용자에게 보여줄 컬럼 이름 (header 가 문자열이 아니면 id 로 대체)
+export const getColumnHeaderLabel = <TData>(
+  column: Column<TData, unknown>
+): string => {
+  const { header } = column.columnDef;
+  return typeof header === "string" ? header : column.id;
+};
+
+// 📌 사용자에게 보여줄 행 이름: columns 순서대로 처음 나오는 글자 / 숫자 값 (없으면 row.id)
+export const getRowLabel = <TData>(
+  row: Row<TData>,
+  columns: Column<TData, unknown>[]
+): string => {
+  for (const column of columns) {
+    const value = row.getValue(column.id);
+    if (
+      (typeof value === "string" && value !== "") ||
+      typeof value === "number"
+    ) {
+      return String(value);
+    }
+  }
+  return row.id;
+};
+
+// 📌 컬럼 값이 저장되는 행 객체의 키
+// accessorKey 컬럼은 그 키, accessorFn 만 있는 동적 컬럼은 컬럼 id 를 쓴다.
+export const getColumnDataKey = <TData>(column: Column<TData, unknown>) => {
+  const { columnDef } = column;
+  return "accessorKey" in columnDef && columnDef.accessorKey !== undefined
+    ? String(columnDef.accessorKey)
+    : column.id;
+};
+
+// 컬럼이 읽는 필드에 값을 써서 새 행 객체를 만든다.
+export const setRowValue = <TData>(
+  row: TData,
+  column: Column<TData, unknown>,
+  value: unknown
+): TData => ({ ...row, [getColumnDataKey(column)]: value });
@@ -0,0 +1,110 @@
+import type { Column, Table } from "@tanstack/react-table";
+import type { CSSProperties } from "react";
+import { getDisplayedLeafColumns } from "./columnPinning";
+
+// 📌 컬럼 드래그 중 본문 셀 표시
+// 헤더는 dnd-kit 의 horizontalListSortingStrategy 로 자리를 비켜 주지만 본문 셀은 sortable 이 아니므로,
+// 같은 규칙(집은 컬럼은 over 위치로, 그 사이 컬럼은 집은 컬럼 너비만큼 반대로)으로 이동량을 계산해
+// 셀에 transform 으로 적용한다. 드래그 상태는 table.options.meta.columnDrag 에 있다.
+
+export type DropSide = "before" | "after";
+
+// 놓일 위치를 나타내는 선 (over 의 앞/뒤 가장자리)
+export const DROP_INDICATOR_COLOR = "#3b82f6";
+
+const getDragColumns = <TData>(table: Table<TData>) => {
+  const drag = table.options.meta?.columnDrag;
+  if (!drag?.overColumnId) return null;
+  const active = table.getColumn(drag.activeColumnId);
+  const over = table.getColumn(drag.overColumnId);
+  // 고정 영역을 넘나드는 이동은 하지 않는다. (useTableDragAndDrop 의 handleDragEnd)
+  if (!active || !over || active.getIsPinned() !== over.getIsPinned()) {
+    return null;
+  }
+  const columns = getDisplayedLeafColumns(table).filter(
+    (column) => column.getIsPinned() === active.getIsPinned()
+  );
+  const activeIndex = columns.indexOf(active);
+  const overIndex = columns.indexOf(over);
+  if (activeIndex === -1 || overIndex === -1 || activeIndex === overIndex) {
+    return null;
+  }
+  return { active, over, columns, activeIndex, overIndex };
+};
+
+// 컬럼 id → 가로 이동량 (px)
+export const getColumnDragOffsets = <TData>(
+  table: Table<TData>
+): Record<string, number> => {
+  const drag = getDragColumns(table);
+  if (!drag) return {};
+  const { active, columns, activeIndex, overIndex } = drag;
+  const movingRight = activeIndex < overIndex;
+  const between = movingRight
+    ? columns.slice(activeIndex + 1, overIndex + 1)
+    : columns.slice(overIndex, activeIndex);
+  const betweenWidth = between.reduce((sum, c) => sum + c.getSize(), 0);
+  return {
+    [active.id]: movingRight ? betweenWidth : -betweenWidth,
+    ...Object.fromEntries(
+      between.map((c) => [
+        c.id,
+        movingRight ? -active.getSize() : active.getSize(),
+      ])
+    ),
+  };
+};
+
+// over 컬럼의 어느 쪽에 놓이는지 (over 가 아니면 null)
+export const getColumnDropSide = <TData>(
+  table: Table<TData>,
+  column: Column<TData, unknown>
+): DropSide | null => {
+  const drag = getDragColumns(table);
+  if (!drag || drag.over !== column) return null;
+  // 함께 옮기는 컬럼 위에 놓으면 아무 일도 일어나지 않는다.
+  if (table.options.meta?.columnDrag?.blockColumnIds.includes(column.id)) {
+    return null;
+  }
+  return drag.activeIndex < drag.overIndex ? "after" : "before";
+};
+
+export const getDropIndicatorShadow = (
+  side: DropSide | null | undefined,
+  axis: "x" | "y"
+) =>
+  !side
+    ? undefined
+    : axis === "x"
+    ? `inset ${side === "before" ? 2 : -2}px 0 0 0 ${DROP_INDICATOR_COLOR}`
+    : `inset 0 ${side === "before" ? 2 : -2}px 0 0 ${DROP_INDICATOR_COLOR}`;
+
+// 여러 box-shadow 를 함께 그린다. (고정 컬럼 경계 그림자 + 놓일 위치 선)
+export const joinShadows = (...shadows: (string | undefined)[]) =>
+  shadows.filter(Boolean).join(", ") || undefined;
+
+// 본문 / 합계 셀에 더하는 스타일 - baseShadow (고정 컬럼 그림자, 행 놓일 위치 선) 위에 컬럼 놓일 위치 선을 더한다.
+export const getColumnDragCellStyles = <TData>(
+  table: Table<TData>,
+  column: Column<TData, unknown>,
+  baseShadow?: string
+): CSSProperties => {
+  const drag = table.options.meta?.columnDrag;
+  if (!drag) return { boxShadow: baseShadow };
+  const offset = getColumnDragOffsets(table)[column.id] ?? 0;
+  const activeRegion = table.getColumn(drag.activeColumnId)?.getIsPinned();
+  const isDragged =
+    drag.blockColumnIds.includes(column.id) &&
+    column.getIsPinned() === activeRegion;
+  const indicator = getDropIndicatorShadow(
+    getColumnDropSide(table, column),
+    "x"
+  );
+  return {
+    transform: offset ? `translateX(${offset}px)` : undefined,
+    // 놓는 순간에는 새 순서로 바로 그려지도록 드래그 중에만 애니메이션한다.
+    transition: "transform 0.2s ease-in-out",
+    opacity: isDragged ? 0.33 : undefined,
+    boxShadow: joinShadows(baseShadow, indicator),
+  };
+};
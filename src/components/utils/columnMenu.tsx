@@ -0,0 +1,254 @@
+import type { Column, Table } from "@tanstack/react-table";
+import { ColumnFilterPanel } from "../ColumnFilterPanel";
+import type { MenuItem } from "../Menu";
+import type { AggregationChoice } from "../types";
+import {
+  aggregationChoices,
+  aggregationLabels,
+  getAggregationChoice,
+  isNumericColumn,
+} from "./aggregation";
+import { getColumnHeaderLabel } from "./columnDef";
+
+// 📌 컬럼 헤더 메뉴 항목 등록
+// 메뉴를 열 때마다 등록된 동작의 getItem 을 order 순으로 불러 항목을 만든다. (null 이면 빠진다)
+// 기본 항목도 같은 방식으로 등록되어 있고, BasicTable 을 고치지 않고 registerColumnMenuAction 으로 더할 수 있다.
+//
+//   registerColumnMenuAction({
+//     id: "copy-header",
+//     getItem: ({ column }) => ({
+//       id: "copy-header",
+//       label: "이름 복사",
+//       onSelect: () => navigator.clipboard.writeText(column.id),
+//     }),
+//   });
+
+// 메뉴를 연 컬럼과, BasicTable 이 관리하는 상태를 바꾸는 동작 (되돌리기 히스토리에 남는다)
+export type ColumnMenuContext<TData> = {
+  table: Table<TData>;
+  column: Column<TData, unknown>;
+  deleteColumn: () => void;
+  // 이름·타입 변경 다이얼로그 (동적 컬럼)
+  editColumn: () => void;
+  editFormattingRules: () => void;
+  isColumnSelected: boolean;
+  toggleColumnSelected: () => void;
+  setAggregation: (choice: AggregationChoice) => void;
+};
+
+export type ColumnMenuAction = {
+  id: string;
+  // 작을수록 위 - 기본 항목은 10 단위, 생략하면 맨 아래
+  order?: number;
+  getItem: <TData>(context: ColumnMenuContext<TData>) => MenuItem | null;
+};
+
+const DEFAULT_ORDER = 1000;
+
+const columnMenuActions = new Map<string, ColumnMenuAction>();
+
+// 같은 id 로 다시 등록하면 바꿔 끼운다. 돌려받은 함수로 등록을 해제한다.
+export const registerColumnMenuAction = (action: ColumnMenuAction) => {
+  columnMenuActions.set(action.id, action);
+  return () => {
+    if (columnMenuActions.get(action.id) === action) {
+      columnMenuActions.delete(action.id);
+    }
+  };
+};
+
+export const getColumnMenuItems = <TData,>(
+  context: ColumnMenuContext<TData>
+): MenuItem[] =>
+  [...columnMenuActions.values()]
+    .sort((a, b) => (a.order ?? DEFAULT_ORDER) - (b.order ?? DEFAULT_ORDER))
+    .map((action) => action.getItem(context))
+    .filter((item): item is MenuItem => item !== null);
+
+// 📌 기본 항목
+const builtInActions: ColumnMenuAction[] = [
+  {
+    id: "delete",
+    order: 10,
+    getItem: ({ deleteColumn }) => ({
+      id: "delete",
+      label: "속성 삭제",
+      tone: "danger",
+      onSelect: deleteColumn,
+    }),
+  },
+  {
+    id: "hide",
+    order: 20,
+    getItem: ({ column }) =>
+      column.getCanHide()
+        ? {
+            id: "hide",
+            label: "숨기기",
+            // 헤더가 사라지므로 포커스를 돌려주지 않는다.
+            restoreFocus: false,
+            onSelect: () => column.toggleVisibility(false),
+          }
+        : null,
+  },
+  {
+    id: "edit",
+    order: 30,
+    // 이름·타입 변경은 동적 컬럼에만 제공
+    getItem: ({ column, editColumn }) =>
+      column.columnDef.meta?.dynamic
+        ? {
+            id: "edit",
+            label: "이름·타입 변경",
+            opensDialog: true,
+            restoreFocus: false,
+            onSelect: editColumn,
+          }
+        : null,
+  },
+  {
+    id: "formatting-rules",
+    order: 40,
+    getItem: ({ column, editFormattingRules }) => {
+      const count = column.columnDef.meta?.rules?.length ?? 0;
+      return {
+        id: "formatting-rules",
+        label: count ? `서식 규칙 (${count})` : "서식 규칙",
+        opensDialog: true,
+        restoreFocus: false,
+        onSelect: editFormattingRules,
+      };
+    },
+  },
+  {
+    id: "pin-left",
+    order: 50,
+    getItem: ({ column }) =>
+      column.getCanPin() && column.getIsPinned() !== "left"
+        ? {
+            id: "pin-left",
+            label: "왼쪽 고정",
+            onSelect: () => column.pin("left"),
+          }
+        : null,
+  },
+  {
+    id: "pin-right",
+    order: 60,
+    getItem: ({ column }) =>
+      column.getCanPin() && column.getIsPinned() !== "right"
+        ? {
+            id: "pin-right",
+            label: "오른쪽 고정",
+            onSelect: () => column.pin("right"),
+          }
+        : null,
+  },
+  {
+    id: "unpin",
+    order: 70,
+    getItem: ({ column }) =>
+      column.getCanPin() && column.getIsPinned()
+        ? {
+            id: "unpin",
+            label: "고정 해제",
+            tone: "muted",
+            onSelect: () => column.pin(false),
+          }
+        : null,
+  },
+  {
+    id: "select",
+    order: 80,
+    getItem: ({ isColumnSelected, toggleColumnSelected }) => ({
+      id: "select",
+      label: isColumnSelected ? "컬럼 선택 해제" : "컬럼 선택",
+      onSelect: toggleColumnSelected,
+    }),
+  },
+  {
+    id: "group",
+    order: 90,
+    getItem: ({ column }) =>
+      column.getCanGroup()
+        ? {
+            id: "group",
+            label: column.getIsGrouped() ? "그룹 해제" : "이 컬럼으로 그룹",
+            onSelect: () => column.toggleGrouping(),
+          }
+        : null,
+  },
+  {
+    id: "aggregation",
+    order: 100,
+    getItem: ({ column, setAggregation }) =>
+      isNumericColumn(column.columnDef)
+        ? {
+            type: "radio-group",
+            id: "aggregation",
+            label: "집계",
+            options: aggregationChoices.map((choice) => ({
+              value: choice,
+              label: aggregationLabels[choice],
+            })),
+            value: getAggregationChoice(column),
+            onSelect: (choice) => setAggregation(choice as AggregationChoice),
+          }
+        : null,
+  },
+  {
+    id: "sort",
+    order: 110,
+    // Shift 를 누른 채 고르면 기존 정렬 뒤에 덧붙는 다중 정렬이 된다.
+    getItem: ({ column }) =>
+      column.getCanSort()
+        ? {
+            type: "submenu",
+            id: "sort",
+            label: "정렬",
+            hint: "Shift + 클릭: 다중 정렬",
+            items: [
+              {
+                id: "asc",
+                label: "오름차순",
+                onSelect: (e) => column.toggleSorting(false, e.shiftKey),
+              },
+              {
+                id: "desc",
+                label: "내림차순",
+                onSelect: (e) => column.toggleSorting(true, e.shiftKey),
+              },
+            ],
+          }
+        : null,
+  },
+  {
+    id: "filter",
+    order: 120,
+    getItem: ({ column }) =>
+      column.getCanFilter()
+        ? {
+            type: "panel",
+            id: "filter",
+            label: "필터",
+            title: `${getColumnHeaderLabel(column)} 필터`,
+            render: () => <ColumnFilterPanel column={column} />,
+          }
+        : null,
+  },
+  {
+    id: "clear-sort",
+    order: 130,
+    getItem: ({ column }) =>
+      column.getIsSorted()
+        ? {
+            id: "clear-sort",
+            label: "정렬 해제",
+            tone: "muted",
+            onSelect: () => column.clearSorting(),
+          }
+        : null,
+  },
+];
+
+builtInActions.forEach(registerColumnMenuAction);
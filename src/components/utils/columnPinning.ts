@@ -0,0 +1,40 @@
+import type { Column, Table } from "@tanstack/react-table";
+import type { CSSProperties } from "react";
+
+// 📌 컬럼 고정 (왼쪽 / 오른쪽 sticky)
+// TanStack 은 헤더와 셀을 왼쪽 → 가운데 → 오른쪽 순서로 만들지만
+// getVisibleLeafColumns() 는 고정과 상관없이 컬럼 순서를 돌려주므로, 화면 순서가 필요하면 이 함수를 쓴다.
+export const getDisplayedLeafColumns = <TData>(table: Table<TData>) => [
+  ...table.getLeftVisibleLeafColumns(),
+  ...table.getCenterVisibleLeafColumns(),
+  ...table.getRightVisibleLeafColumns(),
+];
+
+// 화면에서의 컬럼 위치 (0부터) - aria-colindex 용
+export const getDisplayedColumnIndex = <TData>(
+  table: Table<TData>,
+  column: Column<TData, unknown>
+) => getDisplayedLeafColumns(table).indexOf(column);
+
+// 고정 컬럼의 헤더/셀에 붙이는 sticky 스타일
+// 고정 영역의 경계(왼쪽 영역의 마지막, 오른쪽 영역의 처음)에는 그림자를 넣어 스크롤되는 영역과 구분한다.
+export const getPinningStyles = <TData>(
+  column: Column<TData, unknown>
+): CSSProperties => {
+  const pinned = column.getIsPinned();
+  if (!pinned) return {};
+  const isLastLeft = pinned === "left" && column.getIsLastColumn("left");
+  const isFirstRight = pinned === "right" && column.getIsFirstColumn("right");
+  return {
+    position: "sticky",
+    left: pinned === "left" ? column.getStart("left") : undefined,
+    right: pinned === "right" ? column.getAfter("right") : undefined,
+    zIndex: 1,
+    background: "white",
+    boxShadow: isLastLeft
+      ? "-4px 0 4px -4px gray inset"
+      : isFirstRight
+      ? "4px 0 4px -4px gray inset"
+      : undefined,
+  };
+};
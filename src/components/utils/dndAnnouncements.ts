@@ -0,0 +1,35 @@
+import type { Announcements, ScreenReaderInstructions } from "@dnd-kit/core";
+
+// 📌 키보드 드래그 안내와 스크린리더 알림 (행/컬럼 공용)
+export const dndScreenReaderInstructions: ScreenReaderInstructions = {
+  draggable:
+    "Space 키로 집어 들고, 방향키로 옮긴 뒤 Space 또는 Enter 키로 놓습니다. Esc 키를 누르면 취소됩니다.",
+};
+
+// getLabel: dnd id → 읽어 줄 이름 (예: "Age 컬럼", "3번째 행")
+// getActiveLabel: 집은 항목의 이름 (예: 여러 행을 함께 옮길 때 "3번째 행 외 2개")
+export const createDndAnnouncements = (
+  getLabel: (id: string) => string,
+  getActiveLabel: (id: string) => string = getLabel
+): Announcements => ({
+  onDragStart: ({ active }) =>
+    `${getActiveLabel(`${active.id}`)}을(를) 집었습니다.`,
+  onDragOver: ({ active, over }) =>
+    over
+      ? `${getActiveLabel(`${active.id}`)}이(가) ${getLabel(
+          `${over.id}`
+        )} 위치로 이동했습니다.`
+      : `${getActiveLabel(
+          `${active.id}`
+        )}이(가) 놓을 수 있는 영역 밖에 있습니다.`,
+  onDragEnd: ({ active, over }) =>
+    over
+      ? `${getActiveLabel(`${active.id}`)}을(를) ${getLabel(
+          `${over.id}`
+        )} 위치에 놓았습니다.`
+      : `${getActiveLabel(`${active.id}`)}을(를) 놓지 않았습니다.`,
+  onDragCancel: ({ active }) =>
+    `이동을 취소했습니다. ${getActiveLabel(
+      `${active.id}`
+    )}은(는) 원래 위치로 돌아갔습니다.`,
+});
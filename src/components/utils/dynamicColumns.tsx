@@ -0,0 +1,200 @@
+import type { ColumnDef } from "@tanstack/react-table";
+import { HighlightedText } from "../HighlightedText";
+import type {
+  CellEditor,
+  CellRenderer,
+  DynamicColumnConfig,
+  DynamicColumnType,
+  FilterVariant,
+} from "../types";
+import { isValidDateInput, isValidUrl } from "./cellEditors";
+import { formatCellText } from "./cellFormatting";
+import { getColumnDefId } from "./columnDef";
+import { createEnumSortingFn } from "./sortingFns";
+
+// 📌 동적 컬럼: DynamicColumnConfig → 타입에 맞는 ColumnDef
+
+export const dynamicColumnTypeLabels: Record<DynamicColumnType, string> = {
+  text: "텍스트",
+  number: "숫자",
+  select: "선택",
+  checkbox: "체크박스",
+  date: "날짜",
+  url: "URL",
+};
+
+const DYNAMIC_COLUMN_ID_PREFIX = "dynamic-col-";
+
+// 삭제된 컬럼 번호와 겹치지 않도록 가장 큰 번호 + 1 을 쓴다.
+export const nextDynamicColumnId = <TData,>(columns: ColumnDef<TData>[]) => {
+  const maxIndex = columns.reduce((max, column) => {
+    const id = getColumnDefId(column);
+    if (!id.startsWith(DYNAMIC_COLUMN_ID_PREFIX)) return max;
+    const index = Number(id.slice(DYNAMIC_COLUMN_ID_PREFIX.length));
+    return Number.isNaN(index) ? max : Math.max(max, index);
+  }, 0);
+  return `${DYNAMIC_COLUMN_ID_PREFIX}${maxIndex + 1}`;
+};
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+// 📌 값을 컬럼 타입에 맞게 변환한다. 변환할 수 없으면 undefined (빈 값)
+// 타입 변경 시 기존 값 변환과 기본값 입력 해석에 함께 쓰인다.
+export const coerceDynamicValue = (
+  value: unknown,
+  { type, options = [] }: Pick<DynamicColumnConfig, "type" | "options">
+): unknown => {
+  if (type === "checkbox") {
+    if (typeof value === "boolean") return value;
+    if (typeof value === "number") return value !== 0;
+    return ["true", "1", "y", "yes", "on"].includes(
+      String(value ?? "")
+        .trim()
+        .toLowerCase()
+    );
+  }
+  if (isEmpty(value)) return undefined;
+
+  switch (type) {
+    case "number": {
+      if (typeof value === "boolean") return value ? 1 : 0;
+      const number = Number(value);
+      return Number.isNaN(number) ? undefined : number;
+    }
+    case "date": {
+      if (typeof value === "string" && isValidDateInput(value)) return value;
+      const date = new Date(String(value));
+      return Number.isNaN(date.getTime())
+        ? undefined
+        : date.toISOString().slice(0, 10);
+    }
+    case "url": {
+      const url = String(value).trim();
+      return isValidUrl(url) ? url : undefined;
+    }
+    case "select": {
+      // 가져온 값이나 입력한 선택지의 앞뒤 공백은 무시한다.
+      const text = String(value).trim();
+      return options.find((option) => option.trim() === text);
+    }
+    case "text":
+    default:
+      return String(value);
+  }
+};
+
+const editorByType = (config: DynamicColumnConfig): CellEditor | undefined => {
+  switch (config.type) {
+    case "number":
+      return { type: "number" };
+    case "select":
+      return { type: "select", options: config.options ?? [] };
+    case "date":
+      return { type: "date" };
+    case "url":
+      return { type: "url" };
+    case "checkbox":
+      return undefined; // 셀의 체크박스를 바로 토글한다.
+    case "text":
+    default:
+      return { type: "text" };
+  }
+};
+
+const filterVariantByType: Record<DynamicColumnType, FilterVariant> = {
+  text: "text",
+  number: "range",
+  select: "select",
+  checkbox: "select",
+  date: "text",
+  url: "text",
+};
+
+export const createDynamicColumn = <TData,>(
+  config: DynamicColumnConfig
+): ColumnDef<TData> => {
+  const { id, name, type, options = [], defaultValue } = config;
+
+  const sortingFn: ColumnDef<TData>["sortingFn"] =
+    type === "select"
+      ? createEnumSortingFn(options)
+      : type === "number" || type === "checkbox"
+      ? "number"
+      : type === "date"
+      ? "date"
+      : "text";
+  // 숫자는 천 단위 구분 기호로 보여준다. 전체 검색도 meta.renderer 로 같은 글자와 비교한다.
+  const renderer: CellRenderer | undefined =
+    type === "number" ? { type: "number" } : undefined;
+
+  return {
+    id,
+    header: name,
+    // TData 의 키가 아니므로 accessorKey 대신 accessorFn 으로 값을 읽는다.
+    // 값이 없는 행은 기본값을 보여준다.
+    accessorFn: (row) => {
+      const value = (row as Record<string, unknown>)[id];
+      if (type === "checkbox")
+        return value === undefined ? !!defaultValue : !!value;
+      return isEmpty(value) ? defaultValue : value;
+    },
+    sortingFn,
+    cell: ({ getValue, row, column, table }) => {
+      const value = getValue();
+      const searchQuery = table.options.meta?.searchQuery;
+      if (type === "checkbox") {
+        return (
+          <input
+            type="checkbox"
+            checked={!!value}
+            onChange={(e) =>
+              table.options.meta?.updateData?.(
+                row.id,
+                column.id,
+                e.target.checked
+              )
+            }
+            className="cursor-pointer"
+          />
+        );
+      }
+      if (isEmpty(value)) return "-";
+      if (type === "number") {
+        return (
+          <HighlightedText
+            text={formatCellText(value, renderer)}
+            query={searchQuery}
+          />
+        );
+      }
+      if (type === "url") {
+        return (
+          <a
+            href={String(value)}
+            target="_blank"
+            rel="noreferrer"
+            className="text-blue-600 underline"
+          >
+            <HighlightedText text={String(value)} query={searchQuery} />
+          </a>
+        );
+      }
+      if (type === "select") {
+        return (
+          <span className="rounded bg-gray-100 px-1">
+            <HighlightedText text={String(value)} query={searchQuery} />
+          </span>
+        );
+      }
+      return <HighlightedText text={String(value)} query={searchQuery} />;
+    },
+    meta: {
+      dynamic: config,
+      editor: editorByType(config),
+      renderer,
+      filterVariant: filterVariantByType[type],
+      filterOptions: type === "checkbox" ? ["true", "false"] : options,
+    },
+  };
+};
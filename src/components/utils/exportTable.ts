@@ -0,0 +1,142 @@
+import type { Table } from "@tanstack/react-table";
+import { DRAG_HANDLE_COLUMN_ID } from "../constants";
+import { getColumnHeaderLabel } from "./columnDef";
+import { getDisplayedLeafColumns } from "./columnPinning";
+
+// 📌 현재 테이블 화면(컬럼 순서, 숨김, 정렬, 필터)을 파일로 내보내기
+
+export type ExportFormat = "csv" | "tsv" | "json" | "xlsx";
+
+export type ExportOptions = {
+  selectedOnly?: boolean; // 체크된 행만
+  fileName?: string; // 확장자 제외
+};
+
+type ExportMatrix = {
+  headers: string[];
+  rows: unknown[][];
+};
+
+// 화면에 보이는 컬럼 순서대로, 정렬/필터가 적용된 모든 행 (접힌 하위 행 포함)
+// 그룹으로 묶여 있어도 집계 값이 든 그룹 행은 빼고 데이터 행만 내보낸다.
+export const buildExportMatrix = <TData>(
+  table: Table<TData>,
+  { selectedOnly = false }: ExportOptions = {}
+): ExportMatrix => {
+  const columns = getDisplayedLeafColumns(table).filter(
+    (column) => column.id !== DRAG_HANDLE_COLUMN_ID
+  );
+  const rows = table
+    .getSortedRowModel()
+    .flatRows.filter(
+      (row) => !row.getIsGrouped() && (!selectedOnly || row.getIsSelected())
+    );
+
+  return {
+    headers: columns.map((column) => getColumnHeaderLabel(column)),
+    rows: rows.map((row) => columns.map((column) => row.getValue(column.id))),
+  };
+};
+
+const toText = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// CSV: 구분자/따옴표/줄바꿈이 있으면 따옴표로 감싼다.
+const escapeCsv = (value: unknown) => {
+  const text = toText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// TSV: 탭/줄바꿈은 공백으로 바꾼다.
+const escapeTsv = (value: unknown) => toText(value).replace(/[\t\r\n]+/g, " ");
+
+export const toDelimited = (
+  { headers, rows }: ExportMatrix,
+  delimiter: "," | "\t"
+) => {
+  const escape = delimiter === "," ? escapeCsv : escapeTsv;
+  return [headers, ...rows]
+    .map((cells) => cells.map(escape).join(delimiter))
+    .join("\r\n");
+};
+
+// 이름이 같은 컬럼이 있으면 뒤의 것에 " (2)", " (3)" ... 을 붙인다. (JSON 키가 겹쳐 값을 잃지 않도록)
+const toUniqueKeys = (headers: string[]) => {
+  const used = new Set<string>();
+  return headers.map((header) => {
+    let key = header;
+    for (let n = 2; used.has(key); n++) key = `${header} (${n})`;
+    used.add(key);
+    return key;
+  });
+};
+
+export const toJson = ({ headers, rows }: ExportMatrix) => {
+  const keys = toUniqueKeys(headers);
+  return JSON.stringify(
+    rows.map((cells) =>
+      Object.fromEntries(keys.map((key, i) => [key, cells[i] ?? null]))
+    ),
+    null,
+    2
+  );
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  // 브라우저가 다운로드를 시작한 뒤에 해제한다. (바로 해제하면 다운로드가 실패할 수 있다)
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportTable = async <TData>(
+  table: Table<TData>,
+  format: ExportFormat,
+  options: ExportOptions = {}
+) => {
+  const matrix = buildExportMatrix(table, options);
+  const fileName = options.fileName ?? "table";
+
+  switch (format) {
+    case "csv":
+      // 엑셀에서 한글이 깨지지 않도록 BOM 을 붙인다.
+      downloadBlob(
+        new Blob(["\uFEFF", toDelimited(matrix, ",")], {
+          type: "text/csv;charset=utf-8",
+        }),
+        `${fileName}.csv`
+      );
+      return;
+    case "tsv":
+      downloadBlob(
+        new Blob([toDelimited(matrix, "\t")], {
+          type: "text/tab-separated-values;charset=utf-8",
+        }),
+        `${fileName}.tsv`
+      );
+      return;
+    case "json":
+      downloadBlob(
+        new Blob([toJson(matrix)], { type: "application/json" }),
+        `${fileName}.json`
+      );
+      return;
+    case "xlsx": {
+      // 필요할 때만 불러온다.
+      const { toXlsx } = await import("./xlsxWriter");
+      downloadBlob(
+        new Blob([toXlsx([matrix.headers, ...matrix.rows])], {
+          type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        }),
+        `${fileName}.xlsx`
+      );
+      return;
+    }
+  }
+};
@@ -0,0 +1,162 @@
+import type { ColumnDef, FilterFn } from "@tanstack/react-table";
+import type {
+  FilterVariant,
+  GlobalSearchValue,
+  RangeFilterValue,
+  SelectFilterValue,
+  TextFilterValue,
+} from "../types";
+import { matchCellValue } from "./globalSearch";
+
+// 📌 컬럼 필터 함수
+// 필터 값의 모양은 types.ts 의 *FilterValue 타입을 따른다.
+
+declare module "@tanstack/react-table" {
+  interface FilterFns {
+    text: FilterFn<unknown>;
+    range: FilterFn<unknown>;
+    multiSelect: FilterFn<unknown>;
+    globalSearch: FilterFn<unknown>;
+  }
+}
+
+const text: FilterFn<unknown> = (row, columnId, filterValue) => {
+  const { operator, value } = filterValue as TextFilterValue;
+  const cellValue = String(row.getValue(columnId) ?? "").toLowerCase();
+  const search = value.toLowerCase();
+
+  switch (operator) {
+    case "equals":
+      return cellValue === search;
+    case "startsWith":
+      return cellValue.startsWith(search);
+    case "contains":
+    default:
+      return cellValue.includes(search);
+  }
+};
+// 검색어가 비면 필터를 제거한다.
+text.autoRemove = (filterValue?: TextFilterValue) => !filterValue?.value;
+
+// JSON 으로 저장했다 불러온 범위는 빈 경계가 null 이 되므로 undefined 로 맞춘다.
+// 범위 모양이 아닌 값은 (예: 타입이 바뀌기 전의 텍스트 필터) 빈 범위로 본다.
+const normalizeRange = (filterValue: unknown): RangeFilterValue => {
+  if (!Array.isArray(filterValue) || filterValue.length !== 2) {
+    return [undefined, undefined];
+  }
+  const [min, max] = filterValue as [number | null, number | null];
+  return [min ?? undefined, max ?? undefined];
+};
+
+const range: FilterFn<unknown> = (row, columnId, filterValue) => {
+  const [min, max] = normalizeRange(filterValue);
+  const cellValue = Number(row.getValue(columnId));
+  if (Number.isNaN(cellValue)) return false;
+  if (min !== undefined && cellValue < min) return false;
+  if (max !== undefined && cellValue > max) return false;
+  return true;
+};
+range.autoRemove = (filterValue?: RangeFilterValue) => {
+  if (!filterValue) return true;
+  const [min, max] = normalizeRange(filterValue);
+  return min === undefined && max === undefined;
+};
+
+const multiSelect: FilterFn<unknown> = (row, columnId, filterValue) =>
+  (filterValue as SelectFilterValue).includes(String(row.getValue(columnId)));
+multiSelect.autoRemove = (filterValue?: SelectFilterValue) =>
+  !filterValue?.length;
+
+// 전체 검색 (globalFilterFn) - TanStack 이 컬럼마다 부르고, 한 컬럼이라도 일치하면 행이 남는다.
+// 숨긴 컬럼이 바뀌면 다시 필터링되도록 검색할 컬럼 목록이 필터 값에 들어 있다.
+const globalSearch: FilterFn<unknown> = (row, columnId, filterValue) => {
+  const { query, columnIds, renderers } = filterValue as GlobalSearchValue;
+  return (
+    columnIds.includes(columnId) &&
+    !!matchCellValue(row.getValue(columnId), query, renderers?.[columnId])
+  );
+};
+
+export const filterFns = { text, range, multiSelect, globalSearch };
+
+const filterFnByVariant: Record<FilterVariant, keyof typeof filterFns> = {
+  text: "text",
+  range: "range",
+  select: "multiSelect",
+};
+
+// filterFn 을 직접 지정하지 않은 컬럼은 meta.filterVariant 에 맞는 필터 함수를 쓴다.
+export const withDefaultFilterFn = <TData>(
+  column: ColumnDef<TData>
+): ColumnDef<TData> => {
+  if (column.filterFn) return column;
+  const variant = column.meta?.filterVariant ?? "text";
+  return { ...column, filterFn: filterFnByVariant[variant] };
+};
+
+export const textFilterOperatorLabels: Record<
+  TextFilterValue["operator"],
+  string
+> = {
+  contains: "포함",
+  equals: "같음",
+  startsWith: "시작",
+};
+
+// 필터 값이 필터 UI 종류의 모양과 맞는지
+// 컬럼 타입이 바뀌기 전에 저장된 보기의 필터처럼 모양이 다른 값은 필터 함수에 넘기지 않는다.
+export const isFilterValueOfVariant = (
+  variant: FilterVariant,
+  filterValue: unknown
+): boolean => {
+  switch (variant) {
+    case "range":
+      return (
+        Array.isArray(filterValue) &&
+        filterValue.length === 2 &&
+        filterValue.every(
+          (bound) =>
+            bound === undefined || bound === null || typeof bound === "number"
+        )
+      );
+    case "select":
+      return (
+        Array.isArray(filterValue) &&
+        filterValue.every((option) => typeof option === "string")
+      );
+    case "text":
+    default: {
+      if (typeof filterValue !== "object" || filterValue === null) {
+        return false;
+      }
+      const { operator, value } = filterValue as Partial<TextFilterValue>;
+      return (
+        typeof value === "string" &&
+        !!operator &&
+        operator in textFilterOperatorLabels
+      );
+    }
+  }
+};
+
+// 필터 칩에 보여줄 짧은 설명
+export const describeFilterValue = (
+  variant: FilterVariant,
+  filterValue: unknown
+): string => {
+  switch (variant) {
+    case "range": {
+      const [min, max] = normalizeRange(filterValue);
+      if (min !== undefined && max !== undefined) return `${min} ~ ${max}`;
+      if (min !== undefined) return `≥ ${min}`;
+      return `≤ ${max}`;
+    }
+    case "select":
+      return (filterValue as SelectFilterValue).join(", ");
+    case "text":
+    default: {
+      const { operator, value } = filterValue as TextFilterValue;
+      return `${textFilterOperatorLabels[operator]} "${value}"`;
+    }
+  }
+};
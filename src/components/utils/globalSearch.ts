@@ -0,0 +1,132 @@
+import type { Row } from "@tanstack/react-table";
+import type { CellPosition, CellRenderer, GlobalSearchValue } from "../types";
+import { formatCellText } from "./cellFormatting";
+
+// 📌 전체 검색 (툴바 검색창)
+// 대소문자를 가리지 않고, 가장 좋은 방식 하나로 일치를 찾는다.
+//   정확히 일치 > 앞부분 일치 > 단어 시작 일치 > 포함 > 흩어진 글자 (fuzzy)
+// 흩어진 글자는 검색어의 글자가 순서대로 나오되 너무 멀리 흩어지지 않은 경우만 인정한다.
+// 일치 방식은 하이라이트 진하기와 Enter 로 옮겨 가는 순서(더 잘 일치하는 셀부터)에 쓰인다.
+
+export type SearchMatchKind =
+  | "exact"
+  | "startsWith"
+  | "wordStart"
+  | "contains"
+  | "fuzzy";
+
+// 작을수록 더 잘 일치한다.
+const matchKindRanks: Record<SearchMatchKind, number> = {
+  exact: 0,
+  startsWith: 1,
+  wordStart: 2,
+  contains: 3,
+  fuzzy: 4,
+};
+
+// ranges: 하이라이트할 [시작, 끝) 구간
+export type SearchMatch = {
+  kind: SearchMatchKind;
+  ranges: [start: number, end: number][];
+};
+
+// 흩어진 글자가 검색어 길이의 몇 배 범위 안에 있어야 하는지
+const FUZZY_SPAN_RATIO = 3;
+
+const isWordBoundary = (text: string, index: number) =>
+  index === 0 || /[^\p{L}\p{N}]/u.test(text[index - 1]!);
+
+const findAll = (text: string, query: string) => {
+  const indexes: number[] = [];
+  for (
+    let index = text.indexOf(query);
+    index !== -1;
+    index = text.indexOf(query, index + query.length)
+  ) {
+    indexes.push(index);
+  }
+  return indexes;
+};
+
+const matchFuzzy = (text: string, query: string): SearchMatch | null => {
+  const chars = query.replace(/\s+/g, "");
+  if (chars.length < 2) return null;
+  const ranges: [number, number][] = [];
+  let from = 0;
+  for (const char of chars) {
+    const index = text.indexOf(char, from);
+    if (index === -1) return null;
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === index) last[1] = index + 1;
+    else ranges.push([index, index + 1]);
+    from = index + 1;
+  }
+  const span = ranges[ranges.length - 1]![1] - ranges[0]![0];
+  return span <= chars.length * FUZZY_SPAN_RATIO
+    ? { kind: "fuzzy", ranges }
+    : null;
+};
+
+export const matchSearchText = (
+  text: string,
+  query: string
+): SearchMatch | null => {
+  const search = query.trim().toLowerCase();
+  if (!search) return null;
+  const target = text.toLowerCase();
+  if (target === search) {
+    return { kind: "exact", ranges: [[0, text.length]] };
+  }
+  const indexes = findAll(target, search);
+  if (indexes.length === 0) return matchFuzzy(target, search);
+  const ranges = indexes.map((index): [number, number] => [
+    index,
+    index + search.length,
+  ]);
+  const kind: SearchMatchKind =
+    indexes[0] === 0
+      ? "startsWith"
+      : indexes.some((index) => isWordBoundary(target, index))
+      ? "wordStart"
+      : "contains";
+  return { kind, ranges };
+};
+
+// 검색 대상 값: 문자열과 숫자만, 렌더러가 보여 주는 글자로 (체크박스의 true/false 등은 검색하지 않는다)
+const getSearchableText = (value: unknown, renderer?: CellRenderer) =>
+  typeof value === "string" || typeof value === "number"
+    ? formatCellText(value, renderer)
+    : null;
+
+export const matchCellValue = (
+  value: unknown,
+  query: string,
+  renderer?: CellRenderer
+) => {
+  const text = getSearchableText(value, renderer);
+  return text === null ? null : matchSearchText(text, query);
+};
+
+// Enter / Shift+Enter 로 옮겨 다닐 일치하는 셀
+// 더 잘 일치하는 셀부터, 같은 방식끼리는 화면 순서 (행 → 컬럼)
+export const findSearchMatches = <TData>(
+  rows: Row<TData>[],
+  { query, columnIds, renderers }: GlobalSearchValue
+): CellPosition[] =>
+  rows
+    .flatMap((row) =>
+      row.getIsGrouped()
+        ? []
+        : columnIds.flatMap((columnId) => {
+            const match = matchCellValue(
+              row.getValue(columnId),
+              query,
+              renderers?.[columnId]
+            );
+            return match
+              ? [{ rowId: row.id, columnId, rank: matchKindRanks[match.kind] }]
+              : [];
+          })
+    )
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ rowId, columnId }) => ({ rowId, columnId }));
@@ -0,0 +1,216 @@
+import type { Column } from "@tanstack/react-table";
+import type { DynamicColumnConfig } from "../types";
+import { parseCellInput } from "./cellEditors";
+import { getColumnDataKey, getColumnHeaderLabel } from "./columnDef";
+import { coerceDynamicValue } from "./dynamicColumns";
+
+// 📌 CSV / JSON 가져오기: 파일 파싱 → 타입 추론 → 컬럼 매핑 → 검증
+
+export type ImportSource = {
+  fields: string[];
+  records: Record<string, unknown>[];
+};
+
+// 원본 필드 하나를 어디에 넣을지
+export type ImportTarget =
+  | { kind: "column"; columnId: string } // 기존 컬럼
+  | { kind: "new"; config: DynamicColumnConfig } // 새 동적 컬럼
+  | { kind: "skip" };
+
+export type ImportError = {
+  rowIndex: number; // 원본 데이터 기준 (0부터)
+  field: string;
+  message: string;
+};
+
+// 📌 RFC 4180 CSV 파서 (따옴표 안의 구분자/줄바꿈, "" 이스케이프 지원)
+export const parseDelimited = (
+  text: string,
+  delimiter: string,
+  { skipEmptyRows = true }: { skipEmptyRows?: boolean } = {}
+) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // 완전히 빈 줄은 버린다.
+  return skipEmptyRows ? rows.filter((r) => r.some((c) => c !== "")) : rows;
+};
+
+// 첫 줄에 가장 많이 나오는 구분자 (쉼표/탭/세미콜론)
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  return [",", "\t", ";"].reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length
+      ? delimiter
+      : best
+  );
+};
+
+const parseJsonSource = (text: string): ImportSource => {
+  const parsed: unknown = JSON.parse(text);
+  // [{...}] 또는 { rows|data: [{...}] } 형태를 받는다.
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as Record<string, unknown>)?.rows ??
+      (parsed as Record<string, unknown>)?.data;
+  if (!Array.isArray(list)) {
+    throw new Error("JSON 은 객체 배열이어야 합니다");
+  }
+  const records = list.filter(
+    (item): item is Record<string, unknown> =>
+      typeof item === "object" && item !== null && !Array.isArray(item)
+  );
+  const fields = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  return { fields, records };
+};
+
+const parseCsvSource = (text: string): ImportSource => {
+  const [header = [], ...rows] = parseDelimited(
+    text.replace(/^\uFEFF/, ""),
+    detectDelimiter(text)
+  );
+  const fields = header.map((field, i) => field.trim() || `column${i + 1}`);
+  const records = rows.map((cells) =>
+    Object.fromEntries(fields.map((field, i) => [field, cells[i] ?? ""]))
+  );
+  return { fields, records };
+};
+
+export const parseImportFile = async (file: File): Promise<ImportSource> => {
+  const text = await file.text();
+  const isJson =
+    file.name.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text);
+  return isJson ? parseJsonSource(text) : parseCsvSource(text);
+};
+
+// 📌 값 목록으로 컬럼 타입 추론
+// - 비어 있지 않은 값이 모두 숫자 → number
+// - 서로 다른 값이 적고 반복되면 → select (enum)
+// - 그 외 → text
+const MAX_ENUM_OPTIONS = 10;
+
+// 비어 있지 않은 값 (앞뒤 공백 제거)
+const getPresentValues = (values: unknown[]) =>
+  values
+    .filter((v) => v !== undefined && v !== null && v !== "")
+    .map((v) => String(v).trim());
+
+// 선택 타입의 선택지: 서로 다른 값 (정렬)
+export const inferSelectOptions = (values: unknown[]) =>
+  [...new Set(getPresentValues(values))].filter((v) => v !== "").sort();
+
+export const inferColumnType = (
+  values: unknown[]
+): Pick<DynamicColumnConfig, "type" | "options"> => {
+  const present = getPresentValues(values);
+  if (present.length === 0) return { type: "text" };
+  if (present.every((v) => v !== "" && !Number.isNaN(Number(v)))) {
+    return { type: "number" };
+  }
+  const options = inferSelectOptions(present);
+  if (options.length <= MAX_ENUM_OPTIONS && options.length < present.length) {
+    return { type: "select", options };
+  }
+  return { type: "text" };
+};
+
+// 필드 이름이 컬럼 id 나 헤더와 같으면 그 컬럼으로 연결
+export const findMatchingColumn = <TData>(
+  field: string,
+  columns: Column<TData, unknown>[]
+) => {
+  const normalized = field.trim().toLowerCase();
+  return columns.find(
+    (column) =>
+      column.id.toLowerCase() === normalized ||
+      getColumnDataKey(column).toLowerCase() === normalized ||
+      getColumnHeaderLabel(column).toLowerCase() === normalized
+  );
+};
+
+// 원본 값 하나를 대상 컬럼 타입으로 변환 (실패하면 error)
+const convertValue = <TData>(
+  raw: unknown,
+  target: Exclude<ImportTarget, { kind: "skip" }>,
+  columns: Column<TData, unknown>[]
+): { value: unknown } | { error: string } => {
+  const isEmpty = raw === undefined || raw === null || raw === "";
+  if (target.kind === "new") {
+    if (isEmpty) return { value: undefined };
+    const value = coerceDynamicValue(raw, target.config);
+    return value === undefined
+      ? { error: `${target.config.type} 타입이 아닙니다` }
+      : { value };
+  }
+  const column = columns.find((c) => c.id === target.columnId);
+  const editor = column?.columnDef.meta?.editor;
+  // 편집기가 없는 컬럼은 원본 값을 그대로 넣는다.
+  if (!editor) return { value: raw };
+  // JSON 의 숫자 / boolean / null 도 문자열로 바꿔 셀 편집과 같은 검증을 거친다.
+  if (typeof raw === "object" && raw !== null) {
+    return { error: "지원하지 않는 값입니다" };
+  }
+  return parseCellInput(editor, raw === null ? "" : String(raw));
+};
+
+// 📌 매핑에 따라 원본 레코드를 행 값(데이터 키 → 값)으로 바꾸고 검증 오류를 모은다.
+export const buildImportValues = <TData>(
+  source: ImportSource,
+  mapping: Record<string, ImportTarget>,
+  columns: Column<TData, unknown>[]
+) => {
+  const errors: ImportError[] = [];
+  const values = source.records.map((record, rowIndex) => {
+    const rowValues: Record<string, unknown> = {};
+    for (const field of source.fields) {
+      const target = mapping[field];
+      if (!target || target.kind === "skip") continue;
+      // JSON 레코드에 없는 필드는 건너뛴다. (행을 만들 때 기본값이 들어간다)
+      if (record[field] === undefined) continue;
+      const result = convertValue(record[field], target, columns);
+      if ("error" in result) {
+        errors.push({ rowIndex, field, message: result.error });
+        continue;
+      }
+      const key =
+        target.kind === "new"
+          ? target.config.id
+          : getColumnDataKey(columns.find((c) => c.id === target.columnId)!);
+      rowValues[key] = result.value;
+    }
+    return rowValues;
+  });
+  return { values, errors };
+};
@@ -0,0 +1,176 @@
+import type React from "react";
+import type { CellPosition } from "../types";
+
+// 📌 WAI-ARIA grid 패턴의 셀 이동
+// rowIds 는 화면 순서 (헤더 행 포함), columnIds 는 보이는 컬럼 순서.
+// 이동할 키가 아니면 null
+export const getNextCellPosition = (
+  e: Pick<KeyboardEvent, "key" | "ctrlKey" | "metaKey">,
+  current: CellPosition,
+  rowIds: string[],
+  columnIds: string[],
+  pageSize: number
+): CellPosition | null => {
+  const rowIndex = Math.max(0, rowIds.indexOf(current.rowId));
+  const colIndex = Math.max(0, columnIds.indexOf(current.columnId));
+  const lastRow = rowIds.length - 1;
+  const lastCol = columnIds.length - 1;
+  const withCtrl = e.ctrlKey || e.metaKey;
+
+  const next = (() => {
+    switch (e.key) {
+      case "ArrowUp":
+        return [rowIndex - 1, colIndex];
+      case "ArrowDown":
+        return [rowIndex + 1, colIndex];
+      case "ArrowLeft":
+        return [rowIndex, colIndex - 1];
+      case "ArrowRight":
+        return [rowIndex, colIndex + 1];
+      case "PageUp":
+        return [rowIndex - pageSize, colIndex];
+      case "PageDown":
+        return [rowIndex + pageSize, colIndex];
+      // Home / End: 행의 처음/끝, Ctrl 과 함께면 표의 처음/끝
+      case "Home":
+        return [withCtrl ? 0 : rowIndex, 0];
+      case "End":
+        return [withCtrl ? lastRow : rowIndex, lastCol];
+      default:
+        return null;
+    }
+  })();
+  if (!next) return null;
+
+  const [r, c] = next as [number, number];
+  return {
+    rowId: rowIds[Math.min(Math.max(r, 0), lastRow)]!,
+    columnId: columnIds[Math.min(Math.max(c, 0), lastCol)]!,
+  };
+};
+
+// 포커스를 받을 셀 요소에 붙이는 속성 (포커스 이동 시 이 속성으로 요소를 찾는다)
+export const getCellFocusProps = (
+  position: CellPosition,
+  isTabStop: boolean
+) => ({
+  tabIndex: isTabStop ? 0 : -1,
+  "data-cell-row": position.rowId,
+  "data-cell-column": position.columnId,
+});
+
+export const findCellElement = (
+  container: HTMLElement | null,
+  position: CellPosition
+) =>
+  container?.querySelector<HTMLElement>(
+    `[data-cell-row="${CSS.escape(
+      position.rowId
+    )}"][data-cell-column="${CSS.escape(position.columnId)}"]`
+  ) ?? null;
+
+export const getCellPositionFromElement = (
+  element: Element | null
+): CellPosition | null => {
+  const cell = element?.closest<HTMLElement>("[data-cell-row]");
+  if (!cell) return null;
+  return {
+    rowId: cell.dataset.cellRow!,
+    columnId: cell.dataset.cellColumn!,
+  };
+};
+
+// 📌 팝오버 메뉴 (role="menu") 안에서의 포커스 이동 (비활성화된 항목은 건너뛴다)
+const getMenuItems = (container: HTMLElement | null) =>
+  Array.from(
+    container?.querySelectorAll<HTMLElement>(
+      '[role="menuitem"]:not(:disabled), [role="menuitemradio"]:not(:disabled)'
+    ) ?? []
+  );
+
+export const focusMenuItem = (
+  container: HTMLElement | null,
+  target: "first" | "last" | 1 | -1
+) => {
+  const items = getMenuItems(container);
+  if (items.length === 0) return;
+  const current = items.indexOf(document.activeElement as HTMLElement);
+  const index =
+    target === "first"
+      ? 0
+      : target === "last"
+      ? items.length - 1
+      : (current + target + items.length) % items.length;
+  items[index]?.focus();
+};
+
+// 📌 Tab / Shift+Tab 이 container 밖으로 나가지 않게 한다. (메뉴, 팝오버의 포커스 가두기)
+const FOCUSABLE_SELECTOR =
+  'button:not(:disabled), input:not(:disabled), select:not(:disabled), textarea:not(:disabled), a[href], [tabindex]:not([tabindex="-1"])';
+
+export const trapFocus = (e: React.KeyboardEvent<HTMLElement>) => {
+  if (e.key !== "Tab") return;
+  const focusables = Array.from(
+    e.currentTarget.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)
+  );
+  if (focusables.length === 0) return;
+  const first = focusables[0]!;
+  const last = focusables[focusables.length - 1]!;
+  const active = document.activeElement;
+  const isInside = focusables.includes(active as HTMLElement);
+  if (e.shiftKey && (active === first || !isInside)) {
+    e.preventDefault();
+    last.focus();
+  } else if (!e.shiftKey && (active === last || !isInside)) {
+    e.preventDefault();
+    first.focus();
+  }
+};
+
+// ↑/↓ 항목 이동, Home/End, Esc 닫기, ← 상위 메뉴로 (onBack),
+// → 하위 메뉴 / 팝오버 열기 (onForward - aria-haspopup 이 있는 항목에서만)
+export const handleMenuKeyDown = (
+  e: React.KeyboardEvent<HTMLElement>,
+  {
+    onClose,
+    onBack,
+    onForward,
+  }: {
+    onClose: () => void;
+    onBack?: () => void;
+    onForward?: (item: HTMLElement) => void;
+  }
+) => {
+  const item = (e.target as HTMLElement).closest<HTMLElement>(
+    '[role="menuitem"]'
+  );
+  switch (e.key) {
+    case "ArrowDown":
+      focusMenuItem(e.currentTarget, 1);
+      break;
+    case "ArrowUp":
+      focusMenuItem(e.currentTarget, -1);
+      break;
+    case "Home":
+      focusMenuItem(e.currentTarget, "first");
+      break;
+    case "End":
+      focusMenuItem(e.currentTarget, "last");
+      break;
+    case "Escape":
+      onClose();
+      break;
+    case "ArrowLeft":
+      if (!onBack) return;
+      onBack();
+      break;
+    case "ArrowRight":
+      if (!onForward || !item?.hasAttribute("aria-haspopup")) return;
+      onForward(item);
+      break;
+    default:
+      return;
+  }
+  e.preventDefault();
+  e.stopPropagation();
+};
@@ -0,0 +1,50 @@
+// 📌 메뉴 / 팝오버 위치 계산 (화면 좌표 - position: fixed 로 그린다)
+// bottom-start: 기준 요소 아래 왼쪽 정렬 (컬럼 헤더 메뉴)
+// right-start: 기준 요소 오른쪽 위쪽 정렬 (하위 메뉴)
+// 놓을 쪽에 자리가 없으면 반대쪽으로 뒤집고, 그래도 넘치면 화면 안으로 민다.
+
+export type MenuPlacement = "bottom-start" | "right-start";
+
+type AnchorRect = { top: number; left: number; right: number; bottom: number };
+type Size = { width: number; height: number };
+
+// 화면 가장자리와 띄울 간격, 기준 요소와 띄울 간격 (px)
+const VIEWPORT_MARGIN = 4;
+const ANCHOR_OFFSET = 4;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(value, max));
+
+export const computeMenuPosition = (
+  anchor: AnchorRect,
+  menu: Size,
+  placement: MenuPlacement,
+  viewport: Size
+) => {
+  const maxTop = viewport.height - menu.height - VIEWPORT_MARGIN;
+  const maxLeft = viewport.width - menu.width - VIEWPORT_MARGIN;
+
+  if (placement === "bottom-start") {
+    const below = anchor.bottom + ANCHOR_OFFSET;
+    const above = anchor.top - ANCHOR_OFFSET - menu.height;
+    return {
+      top: clamp(
+        below > maxTop && above >= VIEWPORT_MARGIN ? above : below,
+        VIEWPORT_MARGIN,
+        maxTop
+      ),
+      left: clamp(anchor.left, VIEWPORT_MARGIN, maxLeft),
+    };
+  }
+
+  const right = anchor.right + ANCHOR_OFFSET;
+  const left = anchor.left - ANCHOR_OFFSET - menu.width;
+  return {
+    top: clamp(anchor.top, VIEWPORT_MARGIN, maxTop),
+    left: clamp(
+      right > maxLeft && left >= VIEWPORT_MARGIN ? left : right,
+      VIEWPORT_MARGIN,
+      maxLeft
+    ),
+  };
+};
@@ -0,0 +1,18 @@
+// 📌 목록에서 여러 항목을 한 덩어리로 옮긴다. (선택한 컬럼 함께 드래그)
+// 떨어져 있던 항목도 원래 순서를 유지한 채 overId 항목의 앞/뒤에 연달아 놓인다.
+// overId 가 옮기는 항목 중 하나면 옮길 수 없다. (null 반환)
+export const moveBlock = <T>(
+  items: T[],
+  getId: (item: T) => string,
+  blockIds: string[],
+  overId: string,
+  position: "before" | "after"
+): T[] | null => {
+  if (blockIds.includes(overId)) return null;
+  const block = items.filter((item) => blockIds.includes(getId(item)));
+  const rest = items.filter((item) => !blockIds.includes(getId(item)));
+  const overIndex = rest.findIndex((item) => getId(item) === overId);
+  if (block.length === 0 || overIndex === -1) return null;
+  const insertIndex = position === "after" ? overIndex + 1 : overIndex;
+  return [...rest.slice(0, insertIndex), ...block, ...rest.slice(insertIndex)];
+};
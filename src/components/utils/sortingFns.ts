@@ -0,0 +1,73 @@
+import type { Row, SortingFn } from "@tanstack/react-table";
+
+// 📌 컬럼별로 고를 수 있는 정렬 함수
+// ColumnDef 의 sortingFn 에 "text" | "number" | "date" 처럼 이름으로 지정하거나,
+// enum 순서가 필요하면 createEnumSortingFn(...) 결과를 직접 넘긴다.
+
+declare module "@tanstack/react-table" {
+  interface SortingFns {
+    text: SortingFn<unknown>;
+    number: SortingFn<unknown>;
+    date: SortingFn<unknown>;
+  }
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+// 빈 값(undefined, null, "")은 오름차순 기준으로 뒤로 보낸다.
+const compareEmpty = (a: unknown, b: unknown) => {
+  if (isEmpty(a) && isEmpty(b)) return 0;
+  if (isEmpty(a)) return 1;
+  if (isEmpty(b)) return -1;
+  return null;
+};
+
+const toTime = (value: unknown) => {
+  if (value instanceof Date) return value.getTime();
+  const time = new Date(String(value)).getTime();
+  return Number.isNaN(time) ? Number.NEGATIVE_INFINITY : time;
+};
+
+const text = <TData>(rowA: Row<TData>, rowB: Row<TData>, columnId: string) => {
+  const a = rowA.getValue(columnId);
+  const b = rowB.getValue(columnId);
+  return (
+    compareEmpty(a, b) ??
+    String(a).localeCompare(String(b), undefined, {
+      numeric: true,
+      sensitivity: "base",
+    })
+  );
+};
+
+const number = <TData>(
+  rowA: Row<TData>,
+  rowB: Row<TData>,
+  columnId: string
+) => {
+  const a = rowA.getValue(columnId);
+  const b = rowB.getValue(columnId);
+  return compareEmpty(a, b) ?? Number(a) - Number(b);
+};
+
+const date = <TData>(rowA: Row<TData>, rowB: Row<TData>, columnId: string) => {
+  const a = rowA.getValue(columnId);
+  const b = rowB.getValue(columnId);
+  return compareEmpty(a, b) ?? toTime(a) - toTime(b);
+};
+
+export const sortingFns = { text, number, date };
+
+// enum 값(예: Person["status"])을 주어진 순서대로 정렬한다.
+// 목록에 없는 값은 뒤로 보낸다.
+export const createEnumSortingFn = <TData>(
+  order: readonly string[]
+): SortingFn<TData> => {
+  const rank = (value: unknown) => {
+    const index = order.indexOf(String(value));
+    return index === -1 ? order.length : index;
+  };
+  return (rowA, rowB, columnId) =>
+    rank(rowA.getValue(columnId)) - rank(rowB.getValue(columnId));
+};
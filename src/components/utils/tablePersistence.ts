@@ -0,0 +1,153 @@
+import type {
+  ColumnDef,
+  ColumnFiltersState,
+  ColumnPinningState,
+  ColumnSizingState,
+  GroupingState,
+  RowSelectionState,
+  SortingState,
+  VisibilityState,
+} from "@tanstack/react-table";
+import type {
+  ColumnAggregationState,
+  DynamicColumnConfig,
+  FormattingRule,
+  TableView,
+} from "../types";
+import { withFormattingRules } from "./cellFormatting";
+import { getColumnDefId, sortColumnsByOrder } from "./columnDef";
+import { createDynamicColumn } from "./dynamicColumns";
+
+// 📌 테이블 레이아웃 + 데이터를 localStorage 에 저장/복원
+//
+// ColumnDef 에는 함수(cell, accessorFn 등)가 있어 그대로 저장할 수 없으므로
+// 컬럼은 id 와 동적 컬럼 설정, 서식 규칙만 저장하고, 복원할 때 기본 컬럼 정의와 다시 합친다.
+//
+// 행 데이터는 `${key}:data` 에 따로 저장한다. 레이아웃만 바뀔 때 행 전체를 다시 직렬화하지 않도록.
+// 행이 너무 많으면 데이터는 저장하지 않는다. (용량 초과 + 직렬화에 메인 스레드를 오래 쓴다)
+//
+// 저장 형식을 바꿀 때는 TABLE_STATE_VERSION 을 올리고
+// migrations 에 "이전 버전 → 다음 버전" 변환 함수를 추가한다.
+
+export const TABLE_STATE_VERSION = 1;
+
+// 최상위 행 수 / 직렬화한 문자열 길이가 이보다 크면 데이터를 저장하지 않는다.
+const MAX_PERSISTED_ROWS = 5_000;
+const MAX_PERSISTED_DATA_LENGTH = 2_000_000;
+
+export type SerializedColumn = {
+  id: string;
+  dynamic?: DynamicColumnConfig; // 동적 컬럼이면 다시 만들 때 필요한 설정
+  rules?: FormattingRule[]; // 조건부 서식 규칙 (meta.rules)
+};
+
+export type PersistedTableState<TData> = {
+  version: number;
+  columns: SerializedColumn[];
+  columnOrder: string[];
+  columnSizing: ColumnSizingState;
+  columnPinning: ColumnPinningState;
+  columnVisibility: VisibilityState;
+  grouping: GroupingState;
+  columnAggregations: ColumnAggregationState;
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
+  rowSelection: RowSelectionState;
+  views: TableView[];
+  activeViewId: string | null;
+  // 저장하지 않았으면 (행이 너무 많았으면) 없다.
+  data?: TData[];
+};
+
+export type SaveDataResult = "saved" | "too-large" | "failed";
+
+type UnknownState = Record<string, unknown> & { version: number };
+
+// key: 변환 전 버전 - 예: 1: (state) => ({ ...state, version: 2, 새 필드: 기본값 })
+const migrations: Record<number, (state: UnknownState) => UnknownState> = {};
+
+const getDataKey = (key: string) => `${key}:data`;
+
+const migrate = (state: UnknownState): UnknownState | null => {
+  let current = state;
+  while (current.version < TABLE_STATE_VERSION) {
+    const migration = migrations[current.version];
+    if (!migration) return null;
+    current = migration(current);
+  }
+  // 더 새로운 버전(다른 배포본이 저장한 값)은 해석할 수 없다.
+  return current.version === TABLE_STATE_VERSION ? current : null;
+};
+
+// 읽지 못하면 (잘못된 JSON, 저장소 접근 불가) 예외를 던진다.
+export const loadTableState = <TData>(
+  key: string
+): PersistedTableState<TData> | null => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  const parsed = JSON.parse(raw) as UnknownState;
+  if (typeof parsed?.version !== "number") return null;
+  const state = migrate(parsed) as PersistedTableState<TData> | null;
+  if (!state) return null;
+  const rawData = localStorage.getItem(getDataKey(key));
+  return rawData ? { ...state, data: JSON.parse(rawData) as TData[] } : state;
+};
+
+// 저장하지 못하면 (용량 초과 등) false
+export const saveTableState = <TData>(
+  key: string,
+  state: Omit<PersistedTableState<TData>, "version" | "data">
+) => {
+  try {
+    localStorage.setItem(
+      key,
+      JSON.stringify({ version: TABLE_STATE_VERSION, ...state })
+    );
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// 너무 크거나 저장하지 못하면 이전 저장본도 남기지 않는다. (다시 불러올 때 오래된 행이 돌아오지 않도록)
+export const saveTableData = <TData>(
+  key: string,
+  data: TData[]
+): SaveDataResult => {
+  const dataKey = getDataKey(key);
+  try {
+    localStorage.removeItem(dataKey);
+    if (data.length > MAX_PERSISTED_ROWS) return "too-large";
+    const serialized = JSON.stringify(data);
+    if (serialized.length > MAX_PERSISTED_DATA_LENGTH) return "too-large";
+    localStorage.setItem(dataKey, serialized);
+    return "saved";
+  } catch {
+    return "failed";
+  }
+};
+
+export const serializeColumns = <TData>(
+  columns: ColumnDef<TData>[]
+): SerializedColumn[] =>
+  columns.map((column) => ({
+    id: getColumnDefId(column),
+    dynamic: column.meta?.dynamic,
+    rules: column.meta?.rules,
+  }));
+
+// 저장된 컬럼 목록을 columnOrder 순서대로 ColumnDef 로 되돌린다.
+// 기본 컬럼 중 더 이상 없는 id 는 건너뛴다. 서식 규칙은 저장된 것으로 덮어쓴다.
+export const restoreColumns = <TData>(
+  columns: SerializedColumn[],
+  columnOrder: string[],
+  baseColumns: ColumnDef<TData>[]
+): ColumnDef<TData>[] => {
+  const restored = columns.flatMap((column): ColumnDef<TData>[] => {
+    const base = column.dynamic
+      ? createDynamicColumn<TData>(column.dynamic)
+      : baseColumns.find((c) => getColumnDefId(c) === column.id);
+    return base ? [withFormattingRules(base, column.rules)] : [];
+  });
+  return sortColumnsByOrder(restored, columnOrder);
+};
@@ -0,0 +1,270 @@
+// 📌 subRows 로 중첩된 행 데이터를 다루는 함수들
+// 행 위치는 "경로" (각 단계의 인덱스 배열) 로 표현한다. 예: [2, 0] = 3번째 행의 첫 하위 행
+// getRowId 는 TanStack 과 같이 (행, 부모 안에서의 인덱스) 로 호출된다.
+// setSubRows 가 없으면 하위 행은 바꾸지 못한다. (BasicTable 은 getSubRows 와 함께 받는다)
+
+export type TreeAccessors<TData> = {
+  getRowId: (row: TData, index: number) => string;
+  getSubRows?: (row: TData) => TData[] | undefined;
+  setSubRows?: (row: TData, subRows: TData[] | undefined) => TData;
+};
+
+export type TreeDropPosition = "before" | "after" | "inside";
+
+export const findTreePath = <TData>(
+  data: TData[],
+  accessors: TreeAccessors<TData>,
+  rowId: string
+): number[] | null => {
+  for (let i = 0; i < data.length; i++) {
+    const row = data[i]!;
+    if (accessors.getRowId(row, i) === rowId) return [i];
+    const subRows = accessors.getSubRows?.(row);
+    if (subRows?.length) {
+      const subPath = findTreePath(subRows, accessors, rowId);
+      if (subPath) return [i, ...subPath];
+    }
+  }
+  return null;
+};
+
+// path 위치의 형제 배열을 update 로 바꾼 새 트리를 만든다.
+const updateSiblings = <TData>(
+  data: TData[],
+  accessors: TreeAccessors<TData>,
+  parentPath: number[],
+  update: (siblings: TData[]) => TData[]
+): TData[] => {
+  if (parentPath.length === 0) return update(data);
+  const [index, ...rest] = parentPath;
+  return data.map((row, i) => {
+    if (i !== index || !accessors.setSubRows) return row;
+    const subRows = accessors.getSubRows?.(row) ?? [];
+    const nextSubRows = updateSiblings(subRows, accessors, rest, update);
+    return accessors.setSubRows(
+      row,
+      nextSubRows.length ? nextSubRows : undefined
+    );
+  });
+};
+
+// rowId 인 행을 update 결과로 바꾼다. (없으면 그대로)
+export const updateTreeRow = <TData>(
+  data: TData[],
+  accessors: TreeAccessors<TData>,
+  rowId: string,
+  update: (row: TData) => TData
+): TData[] => {
+  const path = findTreePath(data, accessors, rowId);
+  if (!path) return data;
+  const index = path[path.length - 1]!;
+  return updateSiblings(data, accessors, path.slice(0, -1), (siblings) =>
+    siblings.map((row, i) => (i === index ? update(row) : row))
+  );
+};
+
+// 모든 깊이의 행을 update 결과로 바꾼다. (index: 부모 안에서의 인덱스)
+// 바뀐 행이 없는 형제 배열은 그대로 둔다.
+export const mapTree = <TData>(
+  data: TData[],
+  accessors: TreeAccessors<TData>,
+  update: (row: TData, index: number) => TData
+): TData[] => {
+  let changed = false;
+  const next = data.map((row, i) => {
+    let nextRow = update(row, i);
+    const subRows = accessors.getSubRows?.(row);
+    if (subRows?.length && accessors.setSubRows) {
+      const nextSubRows = mapTree(subRows, accessors, update);
+      if (nextSubRows !== subRows) {
+        nextRow = accessors.setSubRows(nextRow, nextSubRows);
+      }
+    }
+    if (nextRow !== row) changed = true;
+    return nextRow;
+  });
+  return changed ? next : data;
+};
+
+// updates 에 있는 행들을 한 번의 순회로 바꾼다. (붙여넣기처럼 여러 행을 한꺼번에 고칠 때)
+export const updateTreeRows = <TData>(
+  data: TData[],
+  accessors: TreeAccessors<TData>,
+  updates: Map<string, (row: TData) => TData>
+): TData[] =>
+  mapTree(data, accessors, (row, i) => {
+    const update = updates.get(accessors.getRowId(row, i));
+    return update ? update(row) : row;
+  });
+
+// 모든 깊이의 행 id
+export const collectTreeRowIds = <TData>(
+  data: TData[],
+  accessors: TreeAccessors<TData>,
+  ids = new Set<string>()
+): Set<string> => {
+  data.forEach((row, i) => {
+    ids.add(accessors.getRowId(row, i));
+    const subRows = accessors.getSubRows?.(row);
+    if (subRows?.length) collectTreeRowIds(subRows, accessors, ids);
+  });
+  return ids;
+};
+
+// predicate 가 false 인 행을 (하위 행과 함께) 모든 깊이에서 제거한다.
+export const filterTree = <TData>(
+  data: TData[],
+  accessors: TreeAccessors<TData>,
+  predicate: (row: TData, index: number) => boolean
+): TData[] =>
+  data
+    .map((row, index) => ({ row, keep: predicate(row, index) }))
+    .filter(({ keep }) => keep)
+    .map(({ row }) => {
+      const subRows = accessors.getSubRows?.(row);
+      if (!subRows?.length || !accessors.setSubRows) return row;
+      const nextSubRows = filterTree(subRows, accessors, predicate);
+      return nextSubRows.length === subRows.length
+        ? row
+        : accessors.setSubRows(
+            row,
+            nextSubRows.length ? nextSubRows : undefined
+          );
+    });
+
+// path 위치의 행 (없으면 undefined)
+const getTreeRow = <TData>(
+  data: TData[],
+  accessors: TreeAccessors<TData>,
+  path: number[]
+): TData | undefined => {
+  const [index, ...rest] = path;
+  const row = data[index!];
+  if (row === undefined || rest.length === 0) return row;
+  return getTreeRow(accessors.getSubRows?.(row) ?? [], accessors, rest);
+};
+
+// a 경로가 b 경로와 같거나 b 의 조상이면 true
+const isSameOrAncestorPath = (a: number[], b: number[]) =>
+  a.length <= b.length && a.every((index, i) => b[i] === index);
+
+// 화면(전위 순회) 순서로 경로 비교
+const compareTreePaths = (a: number[], b: number[]) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i]! - b[i]!;
+  }
+  return a.length - b.length;
+};
+
+// 📌 행들을 한 덩어리로 overId 행의 앞/뒤(같은 부모 아래) 또는 안쪽(마지막 하위 행)으로 옮긴다. (선택한 행 함께 드래그)
+// 떨어져 있던 행도 화면 순서를 유지한 채 연달아 놓인다.
+// 조상이 함께 옮겨지는 행은 조상을 따라가고, overId 가 옮기는 행(또는 그 하위)이면 옮길 수 없다. (null 반환)
+export const moveTreeRows = <TData>(
+  data: TData[],
+  accessors: TreeAccessors<TData>,
+  activeIds: string[],
+  overId: string,
+  position: TreeDropPosition
+): TData[] | null => {
+  const overPath = findTreePath(data, accessors, overId);
+  if (!overPath) return null;
+  if (position === "inside" && !accessors.setSubRows) return null;
+
+  const activePaths = activeIds
+    .map((id) => findTreePath(data, accessors, id))
+    .filter((path): path is number[] => path !== null);
+  if (activePaths.length === 0) return null;
+  if (activePaths.some((path) => isSameOrAncestorPath(path, overPath))) {
+    return null;
+  }
+  const movedPaths = activePaths
+    .filter(
+      (path) =>
+        !activePaths.some(
+          (other) =>
+            other !== path &&
+            other.length < path.length &&
+            isSameOrAncestorPath(other, path)
+        )
+    )
+    .sort(compareTreePaths);
+
+  // 1. 원래 위치에서 제거 (깊은 경로, 뒤쪽 인덱스부터 지워야 앞선 경로가 바뀌지 않는다)
+  const movedRows = movedPaths.map(
+    (path) => getTreeRow(data, accessors, path)!
+  );
+  const withoutActive = [...movedPaths]
+    .reverse()
+    .reduce(
+      (tree, path) =>
+        updateSiblings(tree, accessors, path.slice(0, -1), (siblings) =>
+          siblings.filter((_, i) => i !== path[path.length - 1])
+        ),
+      data
+    );
+
+  // 2. 제거 후 바뀐 경로로 대상 위치를 다시 찾아 삽입
+  const nextOverPath = findTreePath(withoutActive, accessors, overId)!;
+  if (position === "inside") {
+    return updateSiblings(
+      withoutActive,
+      accessors,
+      nextOverPath,
+      (siblings) => [...siblings, ...movedRows]
+    );
+  }
+  const overIndex = nextOverPath[nextOverPath.length - 1]!;
+  const insertIndex = position === "after" ? overIndex + 1 : overIndex;
+  return updateSiblings(
+    withoutActive,
+    accessors,
+    nextOverPath.slice(0, -1),
+    (siblings) => [
+      ...siblings.slice(0, insertIndex),
+      ...movedRows,
+      ...siblings.slice(insertIndex),
+    ]
+  );
+};
+
+// 📌 rowId 행의 앞/뒤(같은 부모 아래)에 rows 를 넣는다. (rowId 가 없으면 null)
+export const insertTreeRows = <TData>(
+  data: TData[],
+  accessors: TreeAccessors<TData>,
+  rowId: string,
+  rows: TData[],
+  position: Exclude<TreeDropPosition, "inside">
+): TData[] | null => {
+  const path = findTreePath(data, accessors, rowId);
+  if (!path) return null;
+  const index = path[path.length - 1]!;
+  const insertIndex = position === "after" ? index + 1 : index;
+  return updateSiblings(data, accessors, path.slice(0, -1), (siblings) => [
+    ...siblings.slice(0, insertIndex),
+    ...rows,
+    ...siblings.slice(insertIndex),
+  ]);
+};
+
+// 📌 rowId 행을 형제 중 맨 앞(first) / 맨 뒤(last)로 옮긴다. (하위 행은 함께 움직인다)
+// 이미 그 자리에 있으면 data 를 그대로, rowId 가 없으면 null
+export const moveTreeRowToEdge = <TData>(
+  data: TData[],
+  accessors: TreeAccessors<TData>,
+  rowId: string,
+  edge: "first" | "last"
+): TData[] | null => {
+  const path = findTreePath(data, accessors, rowId);
+  if (!path) return null;
+  const index = path[path.length - 1]!;
+  const parentPath = path.slice(0, -1);
+  const siblings =
+    parentPath.length === 0
+      ? data
+      : accessors.getSubRows?.(getTreeRow(data, accessors, parentPath)!) ?? [];
+  if (index === (edge === "first" ? 0 : siblings.length - 1)) return data;
+  return updateSiblings(data, accessors, parentPath, (rows) => {
+    const rest = rows.filter((_, i) => i !== index);
+    return edge === "first" ? [rows[index]!, ...rest] : [...rest, rows[index]!];
+  });
+};
@@ -0,0 +1,318 @@
+import type { Column, Row, Table } from "@tanstack/react-table";
+import React from "react";
+import { DRAG_HANDLE_COLUMN_ID, HEADER_ROW_ID } from "../components/constants";
+import type { CellEdit, CellPosition, CellRange } from "../components/types";
+import {
+  getCellRangeArea,
+  parseClipboardTsv,
+  parsePastedValue,
+  toClipboardTsv,
+} from "../components/utils/cellRange";
+import { setRowValue } from "../components/utils/columnDef";
+import { getDisplayedLeafColumns } from "../components/utils/columnPinning";
+import { getCellPositionFromElement } from "../components/utils/keyboardNavigation";
+import { updateTreeRows, type TreeAccessors } from "../components/utils/tree";
+import {
+  createCommand,
+  stateChange,
+  type HistoryCommand,
+  type TableHistory,
+} from "./useHistory";
+
+// 범위에 넣을 수 있는 본문 셀인지 (헤더, 드래그 핸들 칸 제외)
+export const isRangeCell = (
+  position: CellPosition | null
+): position is CellPosition =>
+  !!position &&
+  position.rowId !== HEADER_ROW_ID &&
+  position.columnId !== DRAG_HANDLE_COLUMN_ID;
+
+export const isSameCell = (a: CellPosition, b: CellPosition) =>
+  a.rowId === b.rowId && a.columnId === b.columnId;
+
+// 셀 안의 입력기 / 체크박스에서는 브라우저 기본 동작을 쓴다.
+const isFormControl = (target: EventTarget) =>
+  ["INPUT", "TEXTAREA", "SELECT"].includes((target as HTMLElement).tagName);
+
+type UseCellRangeClipboardParams<TData> = {
+  table: Table<TData>;
+  // 화면에 그리는 행 (현재 페이지)
+  rows: Row<TData>[];
+  focusedCell: CellPosition;
+  // 드래그나 셀 편집 중에는 범위를 고르거나 붙여넣지 않는다.
+  isDragging: boolean;
+  isEditing: boolean;
+  // 서버 데이터 모드면 붙여넣지 않는다.
+  isServerMode: boolean;
+  // 넘기면 범위를 넘는 붙여넣기에 행을 추가할 수 있다. (그룹으로 묶은 동안은 제외)
+  createRow?: () => TData;
+  isGrouped: boolean;
+  data: TData[];
+  setData: (data: TData[]) => void;
+  treeAccessors: TreeAccessors<TData>;
+  history: TableHistory;
+  onCellEdit?: (edit: CellEdit) => void;
+  // 붙여넣은 결과를 알린다. (command 가 있으면 토스트에 Undo)
+  onPasted: (message: string, command?: HistoryCommand) => void;
+};
+
+// 📌 셀 범위 선택과 복사 / 붙여넣기
+// 마우스로 끌거나 Shift+클릭, Shift+방향키로 본문 셀의 사각형 범위를 고른다. (헤더, 드래그 핸들 칸 제외)
+// Ctrl+C: 범위 (없으면 현재 셀) 를 TSV 로 복사한다.
+// Ctrl+V: 범위의 왼쪽 위 (없으면 현재 셀) 부터 TSV 를 붙여넣는다. 값은 셀 편집과 같이 검증해 잘못된 값은 건너뛴다.
+export const useCellRangeClipboard = <TData>({
+  table,
+  rows,
+  focusedCell,
+  isDragging,
+  isEditing,
+  isServerMode,
+  createRow,
+  isGrouped,
+  data,
+  setData,
+  treeAccessors,
+  history,
+  onCellEdit,
+  onPasted,
+}: UseCellRangeClipboardParams<TData>) => {
+  // 한 칸이면 현재 셀만 선택한 것과 같다.
+  const [cellRange, setCellRange] = React.useState<CellRange | null>(null);
+  // 범위를 넘는 붙여넣기는 행을 추가할지 물어본 뒤 적용한다.
+  const [pendingPaste, setPendingPaste] = React.useState<{
+    start: CellPosition;
+    matrix: string[][];
+    extraRowCount: number;
+  } | null>(null);
+
+  const rangeColumns = getDisplayedLeafColumns(table).filter(
+    (column) => column.id !== DRAG_HANDLE_COLUMN_ID
+  );
+  const cellRangeArea = cellRange
+    ? getCellRangeArea(cellRange, rows, rangeColumns)
+    : null;
+  const rangeRowIds = new Set(cellRangeArea?.rows.map((r) => r.id));
+  const rangeColumnIds = new Set(cellRangeArea?.columns.map((c) => c.id));
+  const isMultiCellRange = rangeRowIds.size * rangeColumnIds.size > 1;
+
+  const isCellSelected = (position: CellPosition): boolean =>
+    isMultiCellRange &&
+    rangeRowIds.has(position.rowId) &&
+    rangeColumnIds.has(position.columnId);
+
+  const isSelectingCellsRef = React.useRef(false);
+  React.useEffect(() => {
+    const stopSelecting = () => {
+      isSelectingCellsRef.current = false;
+    };
+    window.addEventListener("mouseup", stopSelecting);
+    return () => window.removeEventListener("mouseup", stopSelecting);
+  }, []);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLTableElement>) => {
+    if (e.button !== 0 || isDragging) return;
+    const target = e.target as HTMLElement;
+    if (target.closest("button, input, select, textarea, a")) return;
+    const cellElement = target.closest<HTMLElement>("[data-cell-row]");
+    const position = getCellPositionFromElement(cellElement);
+    if (!cellElement || !isRangeCell(position)) return;
+    // 글자를 선택하는 대신 셀 범위를 고른다. (기본 동작을 막았으므로 포커스는 직접 옮긴다)
+    e.preventDefault();
+    cellElement.focus();
+    setCellRange((prev) => ({
+      anchor: e.shiftKey
+        ? prev?.anchor ?? (isRangeCell(focusedCell) ? focusedCell : position)
+        : position,
+      focus: position,
+    }));
+    isSelectingCellsRef.current = true;
+  };
+
+  const handleMouseOver = (e: React.MouseEvent<HTMLTableElement>) => {
+    if (!isSelectingCellsRef.current || !cellRange) return;
+    const position = getCellPositionFromElement(e.target as HTMLElement);
+    if (!isRangeCell(position) || isSameCell(position, cellRange.focus)) return;
+    setCellRange({ anchor: cellRange.anchor, focus: position });
+  };
+
+  const handleCopy = (e: React.ClipboardEvent<HTMLTableElement>) => {
+    if (isFormControl(e.target)) return;
+    const area =
+      cellRangeArea ??
+      (isRangeCell(focusedCell)
+        ? getCellRangeArea(
+            { anchor: focusedCell, focus: focusedCell },
+            rows,
+            rangeColumns
+          )
+        : null);
+    if (!area) return;
+    e.preventDefault();
+    e.clipboardData.setData("text/plain", toClipboardTsv(area));
+  };
+
+  // 붙여넣을 수 있는 행 - 화면 순서로, 다른 페이지와 그룹 행은 빼고
+  const getPasteTargetRows = () =>
+    table.getPrePaginationRowModel().rows.filter((row) => !row.getIsGrouped());
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTableElement>) => {
+    if (isServerMode || isEditing || isFormControl(e.target)) return;
+    const start = cellRangeArea
+      ? {
+          rowId: cellRangeArea.rows[0]!.id,
+          columnId: cellRangeArea.columns[0]!.id,
+        }
+      : focusedCell;
+    if (!isRangeCell(start)) return;
+    const targetRows = getPasteTargetRows();
+    const startIndex = targetRows.findIndex((r) => r.id === start.rowId);
+    const copied = parseClipboardTsv(e.clipboardData.getData("text/plain"));
+    if (startIndex === -1 || copied.length === 0) return;
+    e.preventDefault();
+
+    // 한 칸을 복사해 범위에 붙여넣으면 범위 전체를 그 값으로 채운다.
+    const isSingleValue = copied.length === 1 && copied[0]!.length === 1;
+    const matrix =
+      cellRangeArea && isMultiCellRange && isSingleValue
+        ? cellRangeArea.rows.map(() =>
+            cellRangeArea.columns.map(() => copied[0]![0]!)
+          )
+        : copied;
+    const extraRowCount = startIndex + matrix.length - targetRows.length;
+    if (extraRowCount > 0 && createRow && !isGrouped) {
+      setPendingPaste({ start, matrix, extraRowCount });
+      return;
+    }
+    applyPaste(start, matrix, false);
+  };
+
+  const applyPaste = (
+    start: CellPosition,
+    matrix: string[][],
+    addRows: boolean
+  ) => {
+    const targetRows = getPasteTargetRows();
+    const startRow = targetRows.findIndex((r) => r.id === start.rowId);
+    const startColumn = rangeColumns.findIndex((c) => c.id === start.columnId);
+    if (startRow === -1 || startColumn === -1) return;
+
+    const updates = new Map<string, (row: TData) => TData>();
+    const edits: CellEdit[] = [];
+    const newRows: TData[] = [];
+    let pastedCount = 0;
+    let rejectedCount = 0;
+    let outsideCount = 0;
+
+    matrix.forEach((cells, r) => {
+      const row = targetRows[startRow + r];
+      if (!row && !(addRows && createRow)) {
+        outsideCount += cells.length;
+        return;
+      }
+      const values: [Column<TData, unknown>, unknown][] = [];
+      cells.forEach((text, c) => {
+        const column = rangeColumns[startColumn + c];
+        if (!column) {
+          outsideCount++;
+          return;
+        }
+        const result = parsePastedValue(column, text);
+        if ("error" in result) rejectedCount++;
+        else values.push([column, result.value]);
+      });
+      if (!row) {
+        newRows.push(
+          values.reduce(
+            (acc, [column, value]) => setRowValue(acc, column, value),
+            createRow!()
+          )
+        );
+        pastedCount += values.length;
+        return;
+      }
+      const changed = values.filter(
+        ([column, value]) => value !== row.getValue(column.id)
+      );
+      pastedCount += changed.length;
+      if (changed.length === 0) return;
+      updates.set(row.id, (original) =>
+        changed.reduce(
+          (acc, [column, value]) => setRowValue(acc, column, value),
+          original
+        )
+      );
+      changed.forEach(([column, value]) =>
+        edits.push({
+          rowId: row.id,
+          columnId: column.id,
+          value,
+          previousValue: row.getValue(column.id),
+        })
+      );
+    });
+
+    const skipped = [
+      rejectedCount > 0 && `잘못된 값 ${rejectedCount.toLocaleString()}개`,
+      outsideCount > 0 && `표 밖의 ${outsideCount.toLocaleString()}개`,
+    ].filter(Boolean);
+    const skippedMessage = skipped.length
+      ? ` (${skipped.join(", ")}는 건너뜀)`
+      : "";
+    if (updates.size === 0 && newRows.length === 0) {
+      onPasted(`바뀐 셀이 없습니다${skippedMessage}`);
+      return;
+    }
+    const command = createCommand(
+      "붙여넣기",
+      stateChange(setData, data, [
+        ...updateTreeRows(data, treeAccessors, updates),
+        ...newRows,
+      ])
+    );
+    history.execute(command);
+    edits.forEach((edit) => onCellEdit?.(edit));
+    // 붙여넣은 (이미 있던 행의) 범위를 선택해 둔다.
+    const lastRow =
+      targetRows[Math.min(startRow + matrix.length, targetRows.length) - 1]!;
+    const lastColumn =
+      rangeColumns[
+        Math.min(
+          startColumn + Math.max(...matrix.map((cells) => cells.length)),
+          rangeColumns.length
+        ) - 1
+      ]!;
+    setCellRange({
+      anchor: start,
+      focus: { rowId: lastRow.id, columnId: lastColumn.id },
+    });
+    onPasted(
+      `${pastedCount.toLocaleString()}개 셀을 붙여넣었습니다${
+        newRows.length ? ` (행 ${newRows.length.toLocaleString()}개 추가)` : ""
+      }${skippedMessage}`,
+      command
+    );
+  };
+
+  return {
+    cellRange,
+    // Shift+방향키 / Esc 로 범위를 바꾸는 그리드 키보드 탐색에서 쓴다.
+    setCellRange,
+    isCellSelected,
+    // 표(table)에 붙이는 핸들러
+    gridProps: {
+      onMouseDown: handleMouseDown,
+      onMouseOver: handleMouseOver,
+      onCopy: handleCopy,
+      onPaste: handlePaste,
+    },
+    // 범위를 넘는 붙여넣기 - 있으면 PasteRowsDialog 를 띄운다.
+    pendingPaste: pendingPaste && {
+      extraRowCount: pendingPaste.extraRowCount,
+      apply: (addRows: boolean) => {
+        applyPaste(pendingPaste.start, pendingPaste.matrix, addRows);
+        setPendingPaste(null);
+      },
+    },
+    cancelPendingPaste: () => setPendingPaste(null),
+  };
+};
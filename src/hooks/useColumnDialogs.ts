@@ -0,0 +1,176 @@
+import type {
+  ColumnDef,
+  ColumnFiltersState,
+  Table,
+} from "@tanstack/react-table";
+import React from "react";
+import type { ColumnConfigInput } from "../components/ColumnConfigDialog";
+import type { FormattingRule, TableView } from "../components/types";
+import {
+  getFormattingRuleOperators,
+  withFormattingRules,
+} from "../components/utils/cellFormatting";
+import { getColumnDefId } from "../components/utils/columnDef";
+import {
+  coerceDynamicValue,
+  createDynamicColumn,
+  nextDynamicColumnId,
+} from "../components/utils/dynamicColumns";
+import { mapTree, type TreeAccessors } from "../components/utils/tree";
+import { createCommand, stateChange, type TableHistory } from "./useHistory";
+
+type UseColumnDialogsParams<TData> = {
+  table: Table<TData>;
+  data: TData[];
+  setData: (data: TData[]) => void;
+  treeAccessors: TreeAccessors<TData>;
+  dynamicColumns: ColumnDef<TData>[];
+  setDynamicColumns: (columns: ColumnDef<TData>[]) => void;
+  columnFilters: ColumnFiltersState;
+  setColumnFilters: (columnFilters: ColumnFiltersState) => void;
+  views: TableView[];
+  setViews: (views: TableView[]) => void;
+  history: TableHistory;
+};
+
+// 📌 컬럼 추가 / 수정 다이얼로그와 서식 규칙 다이얼로그
+// 둘 다 동적 컬럼 목록을 바꾸며, 확인하면 되돌릴 수 있는 command 로 실행한다.
+export const useColumnDialogs = <TData>({
+  table,
+  data,
+  setData,
+  treeAccessors,
+  dynamicColumns,
+  setDynamicColumns,
+  columnFilters,
+  setColumnFilters,
+  views,
+  setViews,
+  history,
+}: UseColumnDialogsParams<TData>) => {
+  const [columnDialog, setColumnDialog] = React.useState<
+    { mode: "add" } | { mode: "edit"; columnId: string } | null
+  >(null);
+  // 서식 규칙 다이얼로그를 연 컬럼
+  const [rulesDialogColumnId, setRulesDialogColumnId] = React.useState<
+    string | null
+  >(null);
+
+  // 📌 동적 컬럼 추가 / 이름·타입 변경
+  const submitColumnDialog = (input: ColumnConfigInput) => {
+    if (!columnDialog) return;
+
+    if (columnDialog.mode === "add") {
+      const config = { id: nextDynamicColumnId(dynamicColumns), ...input };
+      history.execute(
+        createCommand(
+          "컬럼 추가",
+          stateChange(setDynamicColumns, dynamicColumns, [
+            ...dynamicColumns,
+            createDynamicColumn<TData>(config),
+          ])
+        )
+      );
+    } else {
+      const { columnId } = columnDialog;
+      const previous = table.getColumn(columnId)?.columnDef.meta?.dynamic;
+      const config = { ...previous, ...input, id: columnId };
+      const nextColumn = createDynamicColumn<TData>(config);
+      // 새 타입에서 고를 수 없는 연산자의 서식 규칙 (예: 숫자 → 텍스트의 ">") 은 버린다.
+      const operators = getFormattingRuleOperators(nextColumn);
+      const changes = [
+        stateChange(
+          setDynamicColumns,
+          dynamicColumns,
+          dynamicColumns.map((col) =>
+            getColumnDefId(col) === columnId
+              ? withFormattingRules(
+                  nextColumn,
+                  col.meta?.rules?.filter((rule) =>
+                    operators.includes(rule.operator)
+                  )
+                )
+              : col
+          )
+        ),
+      ];
+
+      // 타입(또는 선택지)이 바뀌면 저장된 값을 새 타입으로 변환하고,
+      // 모양이 다른 필터는 현재 필터와 저장된 보기 모두에서 지운다.
+      if (
+        previous?.type !== config.type ||
+        previous?.options?.join() !== config.options?.join()
+      ) {
+        // 하위 행의 값도 함께 변환한다.
+        const nextData = mapTree(data, treeAccessors, (row) => {
+          const value = (row as Record<string, unknown>)[columnId];
+          if (value === undefined) return row;
+          return { ...row, [columnId]: coerceDynamicValue(value, config) };
+        });
+        changes.push(
+          stateChange(setData, data, nextData),
+          stateChange(
+            setColumnFilters,
+            columnFilters,
+            columnFilters.filter((f) => f.id !== columnId)
+          ),
+          stateChange(
+            setViews,
+            views,
+            views.map((view) => ({
+              ...view,
+              state: {
+                ...view.state,
+                columnFilters: view.state.columnFilters.filter(
+                  (f) => f.id !== columnId
+                ),
+              },
+            }))
+          )
+        );
+      }
+      history.execute(createCommand("컬럼 수정", ...changes));
+    }
+    setColumnDialog(null);
+  };
+
+  // 📌 조건부 서식 규칙은 컬럼 정의 (meta.rules) 에 저장되므로 컬럼 목록을 바꾼다.
+  const submitRulesDialog = (rules: FormattingRule[]) => {
+    if (!rulesDialogColumnId) return;
+    history.execute(
+      createCommand(
+        "서식 규칙",
+        stateChange(
+          setDynamicColumns,
+          dynamicColumns,
+          dynamicColumns.map((col) =>
+            getColumnDefId(col) === rulesDialogColumnId
+              ? withFormattingRules(col, rules)
+              : col
+          )
+        )
+      )
+    );
+    setRulesDialogColumnId(null);
+  };
+
+  return {
+    columnDialog,
+    // 수정 중인 컬럼의 현재 설정 (추가할 때는 undefined)
+    editingColumnConfig:
+      columnDialog?.mode === "edit"
+        ? table.getColumn(columnDialog.columnId)?.columnDef.meta?.dynamic
+        : undefined,
+    openAddColumnDialog: () => setColumnDialog({ mode: "add" }),
+    openEditColumnDialog: (columnId: string) =>
+      setColumnDialog({ mode: "edit", columnId }),
+    closeColumnDialog: () => setColumnDialog(null),
+    submitColumnDialog,
+    rulesDialogColumn: rulesDialogColumnId
+      ? table.getColumn(rulesDialogColumnId)
+      : undefined,
+    openRulesDialog: setRulesDialogColumnId,
+    closeRulesDialog: () => setRulesDialogColumnId(null),
+    submitRulesDialog,
+  };
+};
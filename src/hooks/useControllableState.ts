@@ -0,0 +1,39 @@
+import { functionalUpdate, type Updater } from "@tanstack/react-table";
+import React from "react";
+
+type UseControllableStateParams<T> = {
+  value?: T; // 전달되면 controlled 모드
+  defaultValue: T; // uncontrolled 모드의 초기값
+  onChange?: (value: T) => void;
+};
+
+// 📌 controlled/uncontrolled 상태를 하나의 [value, setValue] 로 다루는 훅
+// - value 가 undefined 가 아니면 부모가 상태를 소유하고, 내부 state 는 쓰지 않는다.
+// - setValue 는 TanStack 의 Updater 와 같은 형태(값 또는 함수)를 받는다.
+export const useControllableState = <T>({
+  value,
+  defaultValue,
+  onChange,
+}: UseControllableStateParams<T>) => {
+  const [internalValue, setInternalValue] = React.useState<T>(defaultValue);
+  const isControlled = value !== undefined;
+  const currentValue = isControlled ? value : internalValue;
+
+  // 같은 이벤트 안에서 setValue 가 여러 번 불려도 최신 값을 기준으로 계산하기 위해 ref 사용
+  const valueRef = React.useRef(currentValue);
+  valueRef.current = currentValue;
+  const onChangeRef = React.useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const setValue = React.useCallback(
+    (updater: Updater<T>) => {
+      const nextValue = functionalUpdate(updater, valueRef.current);
+      valueRef.current = nextValue;
+      if (!isControlled) setInternalValue(nextValue);
+      onChangeRef.current?.(nextValue);
+    },
+    [isControlled]
+  );
+
+  return [currentValue, setValue] as const;
+};
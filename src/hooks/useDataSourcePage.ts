@@ -0,0 +1,56 @@
+import React from "react";
+import type { DataQuery, DataSource } from "../components/types";
+
+type DataSourcePageState<TData> = {
+  rows: TData[];
+  totalCount: number;
+  loading: boolean;
+  error: unknown;
+};
+
+// 📌 데이터 소스에서 현재 쿼리의 페이지를 불러온다.
+// 쿼리가 바뀌면 진행 중인 요청을 abort 하고 새로 요청하므로, 늦게 도착한 이전 응답이 화면을 덮어쓰지 않는다.
+// 새 페이지가 올 때까지는 이전 행을 그대로 보여준다.
+export const useDataSourcePage = <TData>(
+  dataSource: DataSource<TData> | undefined,
+  query: DataQuery
+) => {
+  const [state, setState] = React.useState<DataSourcePageState<TData>>({
+    rows: [],
+    totalCount: 0,
+    loading: !!dataSource,
+    error: null,
+  });
+  const [reloadCount, setReloadCount] = React.useState(0);
+
+  // 렌더마다 새로 만들어지는 query 객체 대신 내용으로 비교한다.
+  const queryKey = JSON.stringify(query);
+
+  React.useEffect(() => {
+    if (!dataSource) return;
+    const controller = new AbortController();
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    dataSource
+      .fetchPage(JSON.parse(queryKey) as DataQuery, controller.signal)
+      .then(
+        (page) => {
+          if (controller.signal.aborted) return;
+          setState({
+            rows: page.rows,
+            totalCount: page.totalCount,
+            loading: false,
+            error: null,
+          });
+        },
+        (error: unknown) => {
+          if (controller.signal.aborted) return;
+          setState((prev) => ({ ...prev, loading: false, error }));
+        }
+      );
+    return () => controller.abort();
+  }, [dataSource, queryKey, reloadCount]);
+
+  const reload = React.useCallback(() => setReloadCount((n) => n + 1), []);
+
+  return { ...state, reload };
+};
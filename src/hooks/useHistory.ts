@@ -0,0 +1,101 @@
+import React from "react";
+
+// 📌 되돌리기(undo) / 다시하기(redo) 가 가능한 변경 단위
+export type HistoryCommand = {
+  label: string; // 툴바/토스트에 보여줄 설명 (예: "컬럼 삭제")
+  undo: () => void;
+  redo: () => void; // 처음 실행할 때도 redo 를 호출한다.
+};
+
+// 상태 하나를 previous ↔ next 로 바꾸는 command 조각
+export const stateChange = <T>(
+  setValue: (value: T) => void,
+  previous: T,
+  next: T
+): Omit<HistoryCommand, "label"> => ({
+  undo: () => setValue(previous),
+  redo: () => setValue(next),
+});
+
+// 여러 상태를 한 번에 바꾸는 command (undo 는 역순으로 실행)
+export const createCommand = (
+  label: string,
+  ...changes: Omit<HistoryCommand, "label">[]
+): HistoryCommand => ({
+  label,
+  undo: () => [...changes].reverse().forEach((change) => change.undo()),
+  redo: () => changes.forEach((change) => change.redo()),
+});
+
+type HistoryStacks = {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+};
+
+// 📌 command 기반 히스토리 스택 (limit 개까지 보관)
+// 스택은 ref 에서 읽으므로 execute / undo / redo / clear 는 렌더가 바뀌어도 같은 함수다.
+export const useHistory = (limit: number) => {
+  const [stacks, setStacks] = React.useState<HistoryStacks>({
+    past: [],
+    future: [],
+  });
+  const stacksRef = React.useRef(stacks);
+  const update = React.useCallback((next: HistoryStacks) => {
+    stacksRef.current = next;
+    setStacks(next);
+  }, []);
+
+  const execute = React.useCallback(
+    (command: HistoryCommand) => {
+      command.redo();
+      update({
+        past: [...stacksRef.current.past, command].slice(-limit),
+        future: [],
+      });
+    },
+    [limit, update]
+  );
+
+  const undo = React.useCallback(() => {
+    const { past, future } = stacksRef.current;
+    const command = past[past.length - 1];
+    if (!command) return;
+    command.undo();
+    update({ past: past.slice(0, -1), future: [command, ...future] });
+  }, [update]);
+
+  const redo = React.useCallback(() => {
+    const { past, future } = stacksRef.current;
+    const command = future[0];
+    if (!command) return;
+    command.redo();
+    update({
+      past: [...past, command].slice(-limit),
+      future: future.slice(1),
+    });
+  }, [limit, update]);
+
+  // 히스토리 밖에서 상태가 바뀌어 (예: 데이터 재생성) 이전 command 의 스냅샷이 맞지 않을 때 비운다.
+  const clear = React.useCallback(
+    () => update({ past: [], future: [] }),
+    [update]
+  );
+
+  return React.useMemo(
+    () => ({
+      execute,
+      undo,
+      redo,
+      clear,
+      // 가장 최근 command (토스트의 Undo 가 여전히 유효한지 확인할 때 사용)
+      lastCommand: stacks.past[stacks.past.length - 1],
+      canUndo: stacks.past.length > 0,
+      canRedo: stacks.future.length > 0,
+      undoLabel: stacks.past[stacks.past.length - 1]?.label,
+      redoLabel: stacks.future[0]?.label,
+    }),
+    [stacks, execute, undo, redo, clear]
+  );
+};
+
+export type TableHistory = ReturnType<typeof useHistory>;
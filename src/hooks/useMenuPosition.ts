@@ -0,0 +1,57 @@
+import React from "react";
+import {
+  computeMenuPosition,
+  type MenuPlacement,
+} from "../components/utils/menuPosition";
+
+// 메뉴를 붙일 기준 - DOM 요소 또는 좌표만 있는 가상 요소 (예: 우클릭한 지점)
+export type MenuAnchor = { getBoundingClientRect: () => DOMRect };
+
+// 📌 anchor 옆에 메뉴를 띄울 위치 (ref 를 메뉴 요소에 붙인다)
+// 페이지나 표를 스크롤하거나 창 / 메뉴 크기가 바뀌면 다시 계산해 기준 요소를 따라간다.
+// 처음 크기를 재기 전에는 보이지 않게 그린다. (isPositioned 가 false)
+export const useMenuPosition = (
+  anchor: MenuAnchor,
+  placement: MenuPlacement
+) => {
+  const ref = React.useRef<HTMLDivElement>(null);
+  const [position, setPosition] = React.useState<{
+    top: number;
+    left: number;
+  } | null>(null);
+
+  React.useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const update = () => {
+      const { width, height } = element.getBoundingClientRect();
+      const next = computeMenuPosition(
+        anchor.getBoundingClientRect(),
+        { width, height },
+        placement,
+        { width: window.innerWidth, height: window.innerHeight }
+      );
+      setPosition((prev) =>
+        prev?.top === next.top && prev.left === next.left ? prev : next
+      );
+    };
+    update();
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(element);
+    // 스크롤 이벤트는 버블링되지 않으므로 캡처 단계에서 모든 스크롤 영역을 듣는다.
+    document.addEventListener("scroll", update, true);
+    window.addEventListener("resize", update);
+    return () => {
+      resizeObserver.disconnect();
+      document.removeEventListener("scroll", update, true);
+      window.removeEventListener("resize", update);
+    };
+  }, [anchor, placement]);
+
+  const style: React.CSSProperties = position ?? {
+    top: 0,
+    left: 0,
+    visibility: "hidden",
+  };
+  return { ref, style, isPositioned: position !== null };
+};
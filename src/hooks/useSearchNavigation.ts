@@ -0,0 +1,106 @@
+import type { PaginationState, Row, Table } from "@tanstack/react-table";
+import type { Virtualizer } from "@tanstack/react-virtual";
+import React from "react";
+import type { CellPosition, GlobalSearchValue } from "../components/types";
+import { getDisplayedLeafColumns } from "../components/utils/columnPinning";
+import { findSearchMatches } from "../components/utils/globalSearch";
+import { findCellElement } from "../components/utils/keyboardNavigation";
+
+type UseSearchNavigationParams<TData> = {
+  table: Table<TData>;
+  // 검색어가 없으면 undefined
+  globalSearch: GlobalSearchValue | undefined;
+  // 화면에 그리는 행 (현재 페이지)
+  rows: Row<TData>[];
+  isServerMode: boolean;
+  isPaginated: boolean;
+  pagination: PaginationState;
+  setFocusedCell: (position: CellPosition) => void;
+  scrollRef: React.RefObject<HTMLDivElement | null>;
+  rowVirtualizer: Virtualizer<HTMLDivElement, Element>;
+};
+
+// 📌 검색 일치 셀 사이 이동 (검색창의 Enter / Shift+Enter)
+// 포커스는 검색창에 두고, 일치 셀을 표시하고 스크롤한다. 페이지로 나눠 보고 있으면 그 페이지로 넘긴다.
+// 일치 셀은 키보드 탐색의 현재 셀도 되므로 Tab 으로 표에 들어가면 그 셀에서 시작한다.
+export const useSearchNavigation = <TData>({
+  table,
+  globalSearch,
+  rows,
+  isServerMode,
+  isPaginated,
+  pagination,
+  setFocusedCell,
+  scrollRef,
+  rowVirtualizer,
+}: UseSearchNavigationParams<TData>) => {
+  // 옮겨 간 일치 셀 - 검색어가 바뀌면 처음부터 다시 찾는다.
+  const [searchCursor, setSearchCursor] = React.useState<{
+    query: string;
+    position: CellPosition;
+  } | null>(null);
+  const activeSearchMatch =
+    globalSearch && searchCursor?.query === globalSearch.query
+      ? searchCursor.position
+      : null;
+  const pendingSearchScrollRef = React.useRef<CellPosition | null>(null);
+
+  const moveSearchMatch = (direction: 1 | -1) => {
+    if (!globalSearch) return;
+    const searchRows = isServerMode
+      ? rows
+      : table.getPrePaginationRowModel().rows;
+    const matches = findSearchMatches(searchRows, {
+      ...globalSearch,
+      columnIds: getDisplayedLeafColumns(table)
+        .map((c) => c.id)
+        .filter((id) => globalSearch.columnIds.includes(id)),
+    });
+    if (matches.length === 0) return;
+    const currentIndex = activeSearchMatch
+      ? matches.findIndex(
+          (m) =>
+            m.rowId === activeSearchMatch.rowId &&
+            m.columnId === activeSearchMatch.columnId
+        )
+      : -1;
+    const next =
+      currentIndex === -1
+        ? matches[direction === 1 ? 0 : matches.length - 1]!
+        : matches[
+            (currentIndex + direction + matches.length) % matches.length
+          ]!;
+
+    setSearchCursor({ query: globalSearch.query, position: next });
+    setFocusedCell(next);
+    if (isPaginated && !isServerMode) {
+      const rowIndex = searchRows.findIndex((r) => r.id === next.rowId);
+      table.setPageIndex(Math.floor(rowIndex / pagination.pageSize));
+    }
+    pendingSearchScrollRef.current = next;
+  };
+
+  // 일치 셀이 렌더링될 때까지 (가상화, 페이지 이동) 그 행으로 스크롤한 뒤, 셀을 가운데로 맞춘다.
+  // (block: "nearest" 면 고정 헤더 밑에 가려질 수 있다)
+  React.useEffect(() => {
+    const pending = pendingSearchScrollRef.current;
+    if (!pending) return;
+    const rowIndex = rows.findIndex((r) => r.id === pending.rowId);
+    if (rowIndex === -1) return;
+    const element = findCellElement(scrollRef.current, pending);
+    if (element) {
+      pendingSearchScrollRef.current = null;
+      element.scrollIntoView({ block: "center", inline: "nearest" });
+    } else {
+      rowVirtualizer.scrollToIndex(rowIndex, { align: "center" });
+    }
+  });
+
+  return {
+    // 셀이 지금 옮겨 온 일치 셀인지 (meta.isActiveSearchMatch)
+    isActiveSearchMatch: (position: CellPosition) =>
+      activeSearchMatch?.rowId === position.rowId &&
+      activeSearchMatch.columnId === position.columnId,
+    moveSearchMatch,
+  };
+};
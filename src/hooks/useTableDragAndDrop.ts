@@ -0,0 +1,435 @@
+import {
+  closestCenter,
+  KeyboardSensor,
+  MouseSensor,
+  PointerSensor,
+  pointerWithin,
+  TouchSensor,
+  useSensor,
+  useSensors,
+  type CollisionDetection,
+  type DndContextProps,
+  type DragEndEvent,
+  type Modifier,
+  type UniqueIdentifier,
+} from "@dnd-kit/core";
+import {
+  restrictToHorizontalAxis,
+  restrictToVerticalAxis,
+} from "@dnd-kit/modifiers";
+import { sortableKeyboardCoordinates } from "@dnd-kit/sortable";
+import type {
+  ColumnDef,
+  ColumnPinningState,
+  ExpandedState,
+  PaginationState,
+  Row,
+  Table,
+} from "@tanstack/react-table";
+import React from "react";
+import {
+  COLUMN_DND_PREFIX,
+  NEXT_PAGE_DROP_ID,
+  PREVIOUS_PAGE_DROP_ID,
+  ROW_DND_PREFIX,
+  TREE_INDENT,
+} from "../components/constants";
+import type { ColumnDragState } from "../components/types";
+import {
+  getColumnDefId,
+  getColumnHeaderLabel,
+} from "../components/utils/columnDef";
+import { getDisplayedLeafColumns } from "../components/utils/columnPinning";
+import {
+  createDndAnnouncements,
+  dndScreenReaderInstructions,
+} from "../components/utils/dndAnnouncements";
+import { moveBlock } from "../components/utils/moveBlock";
+import {
+  moveTreeRows,
+  type TreeAccessors,
+  type TreeDropPosition,
+} from "../components/utils/tree";
+import { createCommand, stateChange, type TableHistory } from "./useHistory";
+
+// 포인터가 이전 / 다음 페이지 버튼 위에 있으면 그 버튼이 놓을 곳이 되고,
+// 아니면 평소처럼 가장 가까운 행 / 헤더를 고른다.
+const PAGE_DROP_IDS: UniqueIdentifier[] = [
+  PREVIOUS_PAGE_DROP_ID,
+  NEXT_PAGE_DROP_ID,
+];
+const collisionDetection: CollisionDetection = (args) => {
+  const pageCollisions = pointerWithin({
+    ...args,
+    droppableContainers: args.droppableContainers.filter((container) =>
+      PAGE_DROP_IDS.includes(container.id)
+    ),
+  });
+  if (pageCollisions.length > 0) return pageCollisions;
+  return closestCenter({
+    ...args,
+    droppableContainers: args.droppableContainers.filter(
+      (container) => !PAGE_DROP_IDS.includes(container.id)
+    ),
+  });
+};
+
+// 📌 드래그 상태
+// 컬럼 드래그 정보가 테이블 meta (columnDrag) 에 들어가므로 useReactTable 보다 먼저 만든다.
+export const useDragState = () => {
+  // 집은 항목과 지금 위에 있는 항목의 dnd id (DragOverlay 미리보기, 놓일 위치 표시용)
+  const [activeId, setActiveId] = React.useState<UniqueIdentifier | null>(null);
+  const [overId, setOverId] = React.useState<UniqueIdentifier | null>(null);
+  // 트리에서 "하위로 넣기" 로 놓일 대상 행 (드래그 중 표시용)
+  const [nestTargetId, setNestTargetId] = React.useState<string | null>(null);
+  // 헤더 Ctrl(⌘)+클릭 또는 컬럼 메뉴로 선택한 컬럼 - 선택한 컬럼을 집으면 함께 드래그된다.
+  const [selectedColumnIds, setSelectedColumnIds] = React.useState<string[]>(
+    []
+  );
+  const toggleColumnSelected = (columnId: string) =>
+    setSelectedColumnIds((prev) =>
+      prev.includes(columnId)
+        ? prev.filter((id) => id !== columnId)
+        : [...prev, columnId]
+    );
+
+  // 컬럼을 드래그하는 중이면 본문 셀도 헤더와 함께 움직인다. (EditableCell, getColumnDragCellStyles)
+  const activeColumnId = `${activeId ?? ""}`.startsWith(COLUMN_DND_PREFIX)
+    ? `${activeId}`.slice(COLUMN_DND_PREFIX.length)
+    : null;
+  const columnDrag: ColumnDragState | undefined = activeColumnId
+    ? {
+        activeColumnId,
+        overColumnId: `${overId ?? ""}`.startsWith(COLUMN_DND_PREFIX)
+          ? `${overId}`.slice(COLUMN_DND_PREFIX.length)
+          : null,
+        blockColumnIds: selectedColumnIds.includes(activeColumnId)
+          ? selectedColumnIds
+          : [activeColumnId],
+      }
+    : undefined;
+
+  return {
+    activeId,
+    setActiveId,
+    overId,
+    setOverId,
+    nestTargetId,
+    setNestTargetId,
+    selectedColumnIds,
+    toggleColumnSelected,
+    columnDrag,
+  };
+};
+
+export type DragState = ReturnType<typeof useDragState>;
+
+type UseTableDragAndDropParams<TData> = {
+  dragState: DragState;
+  table: Table<TData>;
+  rows: Row<TData>[]; // 화면 순서의 행 (현재 페이지)
+  isTree: boolean;
+  isRowDragDisabled: boolean;
+  data: TData[];
+  setData: (data: TData[]) => void;
+  treeAccessors: TreeAccessors<TData>;
+  expanded: ExpandedState;
+  setExpanded: (expanded: ExpandedState) => void;
+  columnPinning: ColumnPinningState;
+  setColumnPinning: (columnPinning: ColumnPinningState) => void;
+  dynamicColumns: ColumnDef<TData>[];
+  setDynamicColumns: (columns: ColumnDef<TData>[]) => void;
+  pagination: PaginationState;
+  history: TableHistory;
+};
+
+// 📌 행 / 컬럼 드래그로 순서 바꾸기 (DndContext 에 넘길 props 와 드래그 중 표시용 값)
+// 행은 data 순서(트리라면 부모까지), 컬럼은 고정 영역 안이면 columnPinning, 아니면 컬럼 목록 순서를 바꾼다.
+export const useTableDragAndDrop = <TData>({
+  dragState,
+  table,
+  rows,
+  isTree,
+  isRowDragDisabled,
+  data,
+  setData,
+  treeAccessors,
+  expanded,
+  setExpanded,
+  columnPinning,
+  setColumnPinning,
+  dynamicColumns,
+  setDynamicColumns,
+  pagination,
+  history,
+}: UseTableDragAndDropParams<TData>) => {
+  const {
+    activeId,
+    setActiveId,
+    overId,
+    setOverId,
+    nestTargetId,
+    setNestTargetId,
+    selectedColumnIds,
+  } = dragState;
+  const { rowSelection } = table.getState();
+
+  // 📌 선택한 행 / 컬럼 함께 드래그
+  // 선택된 항목을 집으면 (필터로 보이는) 선택된 항목 전체가 한 덩어리로 움직인다.
+  // 컬럼은 집은 컬럼과 같은 고정 영역의 것만 함께 움직인다.
+  // dnd id 로 함께 옮길 행 / 컬럼 id 목록 (prefix 없음, 선택되지 않았으면 자기 자신만)
+  const getDragBlockIds = (dndId: string): string[] => {
+    if (dndId.startsWith(ROW_DND_PREFIX)) {
+      const rowId = dndId.slice(ROW_DND_PREFIX.length);
+      if (!rowSelection[rowId]) return [rowId];
+      return table.getFilteredSelectedRowModel().flatRows.map((r) => r.id);
+    }
+    if (dndId.startsWith(COLUMN_DND_PREFIX)) {
+      const columnId = dndId.slice(COLUMN_DND_PREFIX.length);
+      if (!selectedColumnIds.includes(columnId)) return [columnId];
+      const region = table.getColumn(columnId)?.getIsPinned();
+      return getDisplayedLeafColumns(table)
+        .filter(
+          (column) =>
+            selectedColumnIds.includes(column.id) &&
+            column.getIsPinned() === region
+        )
+        .map((column) => column.id);
+    }
+    return [];
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const isRow = `${active.id}`.startsWith(ROW_DND_PREFIX);
+    const isCol = `${active.id}`.startsWith(COLUMN_DND_PREFIX);
+
+    // 이전 / 다음 페이지 버튼에 놓으면 그 페이지의 끝 / 처음으로 옮기고 따라간다.
+    if (
+      isRow &&
+      !isRowDragDisabled &&
+      (over.id === PREVIOUS_PAGE_DROP_ID || over.id === NEXT_PAGE_DROP_ID)
+    ) {
+      const blockRowIds = getDragBlockIds(`${active.id}`);
+      const { pageIndex, pageSize } = pagination;
+      const allRows = table.getPrePaginationRowModel().rows;
+      const restRows = allRows.filter((r) => !blockRowIds.includes(r.id));
+      const toPrevious = over.id === PREVIOUS_PAGE_DROP_ID;
+      // 옮긴 행들이 이전 페이지의 끝 / 다음 페이지의 처음에 오도록 나머지 행 사이의 삽입 위치를 구한다.
+      const insertIndex = Math.min(
+        Math.max(
+          0,
+          toPrevious
+            ? pageIndex * pageSize - (allRows.length - restRows.length)
+            : (pageIndex + 1) * pageSize
+        ),
+        restRows.length
+      );
+      const beforeRow = restRows[insertIndex];
+      const targetRow = beforeRow ?? restRows[insertIndex - 1];
+      if (!targetRow) return;
+      const nextData = moveTreeRows(
+        data,
+        treeAccessors,
+        blockRowIds,
+        targetRow.id,
+        beforeRow ? "before" : "after"
+      );
+      if (nextData) {
+        history.execute(
+          createCommand("행 이동", stateChange(setData, data, nextData))
+        );
+        table.setPageIndex(Math.floor(insertIndex / pageSize));
+      }
+      return;
+    }
+
+    // 정렬 중에는 화면 순서와 data 순서가 다르므로 행 드래그를 막는다. (isRowDragDisabled)
+    if (isRow && !isRowDragDisabled) {
+      const activeRowId = `${active.id}`.slice(ROW_DND_PREFIX.length);
+      const overRowId = `${over.id}`.slice(ROW_DND_PREFIX.length);
+      // 오른쪽으로 TREE_INDENT 이상 끌어 놓으면 over 행의 하위 행이 되고,
+      // 아니면 over 행과 같은 부모 아래 (위에서 왔으면 뒤, 아래에서 왔으면 앞) 로 옮겨진다.
+      const asChild = isTree && event.delta.x >= TREE_INDENT;
+      const activeIndex = rows.findIndex((r) => r.id === activeRowId);
+      const overIndex = rows.findIndex((r) => r.id === overRowId);
+      const nextData = moveTreeRows(
+        data,
+        treeAccessors,
+        getDragBlockIds(`${active.id}`),
+        overRowId,
+        asChild ? "inside" : activeIndex < overIndex ? "after" : "before"
+      );
+      if (nextData) {
+        const changes = [stateChange(setData, data, nextData)];
+        // 하위로 옮긴 행이 보이도록 새 부모를 펼친다.
+        if (asChild && expanded !== true && !expanded[overRowId]) {
+          changes.push(
+            stateChange(setExpanded, expanded, {
+              ...expanded,
+              [overRowId]: true,
+            })
+          );
+        }
+        history.execute(createCommand("행 이동", ...changes));
+      }
+    }
+
+    if (isCol) {
+      const activeColumnId = `${active.id}`.slice(COLUMN_DND_PREFIX.length);
+      const overColumnId = `${over.id}`.slice(COLUMN_DND_PREFIX.length);
+      const region = table.getColumn(activeColumnId)?.getIsPinned();
+      // 고정 영역(왼쪽 / 가운데 / 오른쪽)을 넘나드는 이동은 하지 않는다.
+      if (region !== table.getColumn(overColumnId)?.getIsPinned()) return;
+      const blockColumnIds = getDragBlockIds(`${active.id}`);
+
+      if (region) {
+        // 고정 영역 안의 순서는 columnPinning 배열 순서를 따른다.
+        const pinnedIds = columnPinning[region] ?? [];
+        const nextPinnedIds = moveBlock(
+          pinnedIds,
+          (id) => id,
+          blockColumnIds,
+          overColumnId,
+          pinnedIds.indexOf(activeColumnId) < pinnedIds.indexOf(overColumnId)
+            ? "after"
+            : "before"
+        );
+        if (nextPinnedIds) {
+          history.execute(
+            createCommand(
+              "컬럼 이동",
+              stateChange(setColumnPinning, columnPinning, {
+                ...columnPinning,
+                [region]: nextPinnedIds,
+              })
+            )
+          );
+        }
+        return;
+      }
+
+      const columnIds = dynamicColumns.map(getColumnDefId);
+      const nextColumns = moveBlock(
+        dynamicColumns,
+        getColumnDefId,
+        blockColumnIds,
+        overColumnId,
+        columnIds.indexOf(activeColumnId) < columnIds.indexOf(overColumnId)
+          ? "after"
+          : "before"
+      );
+      if (nextColumns) {
+        history.execute(
+          createCommand(
+            "컬럼 이동",
+            stateChange(setDynamicColumns, dynamicColumns, nextColumns)
+          )
+        );
+      }
+    }
+  };
+
+  const sensors = useSensors(
+    useSensor(MouseSensor),
+    useSensor(TouchSensor),
+    // Space 로 집고 방향키로 옮긴 뒤 Space / Enter 로 놓는다.
+    // (Enter 는 셀 편집, 헤더 메뉴 열기에 쓰므로 집기에는 쓰지 않는다.)
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+      keyboardCodes: {
+        start: ["Space"],
+        cancel: ["Escape"],
+        end: ["Space", "Enter"],
+      },
+    }),
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 5,
+      },
+    })
+  );
+
+  // 드래그 중 함께 움직이는 행 / 컬럼 (2개 이상이면 미리보기에 개수를 보여준다)
+  const dragBlockIds = activeId ? getDragBlockIds(`${activeId}`) : [];
+  const isMultiDrag = dragBlockIds.length > 1;
+
+  const getModifiersForDragId = (id: string): Modifier[] => {
+    // 트리에서는 가로 이동 거리로 "하위로 넣기" 를 판단하므로 세로로 고정하지 않는다.
+    if (id.startsWith(ROW_DND_PREFIX)) {
+      return isTree ? [] : [restrictToVerticalAxis];
+    }
+    if (id.startsWith(COLUMN_DND_PREFIX)) return [restrictToHorizontalAxis];
+    return [];
+  };
+
+  // 놓일 위치: over 행의 앞/뒤 (트리에서 오른쪽으로 끌면 안쪽). 함께 옮기는 행 위라면 표시하지 않는다.
+  const getRowDropIndicator = (rowId: string): TreeDropPosition | undefined => {
+    const dndId = `${ROW_DND_PREFIX}${rowId}`;
+    if (!activeId || overId !== dndId || activeId === overId) return undefined;
+    if (isRowDragDisabled || dragBlockIds.includes(rowId)) return undefined;
+    if (nestTargetId === dndId) return "inside";
+    const activeIndex = rows.findIndex(
+      (r) => `${ROW_DND_PREFIX}${r.id}` === activeId
+    );
+    const overIndex = rows.findIndex((r) => r.id === rowId);
+    return activeIndex < overIndex ? "after" : "before";
+  };
+
+  // 키보드 드래그 중 스크린리더에 읽어 줄 이름
+  const getDndLabel = (id: string) => {
+    if (id === PREVIOUS_PAGE_DROP_ID) return "이전 페이지";
+    if (id === NEXT_PAGE_DROP_ID) return "다음 페이지";
+    if (id.startsWith(COLUMN_DND_PREFIX)) {
+      const column = table.getColumn(id.slice(COLUMN_DND_PREFIX.length));
+      return `${column ? getColumnHeaderLabel(column) : id} 컬럼`;
+    }
+    const rowId = id.slice(ROW_DND_PREFIX.length);
+    return `${rows.findIndex((r) => r.id === rowId) + 1}번째 행`;
+  };
+  // 집은 항목은 함께 옮겨지는 개수도 알린다.
+  const getDndActiveLabel = (id: string) => {
+    const count = getDragBlockIds(id).length;
+    return count > 1 ? `${getDndLabel(id)} 외 ${count - 1}개` : getDndLabel(id);
+  };
+
+  const endDrag = () => {
+    setActiveId(null);
+    setOverId(null);
+    setNestTargetId(null);
+  };
+
+  const dndContextProps: DndContextProps = {
+    collisionDetection,
+    sensors,
+    accessibility: {
+      announcements: createDndAnnouncements(getDndLabel, getDndActiveLabel),
+      screenReaderInstructions: dndScreenReaderInstructions,
+    },
+    onDragStart: (e) => {
+      setActiveId(e.active.id);
+      setOverId(null);
+    },
+    onDragOver: (e) => setOverId(e.over?.id ?? null),
+    onDragMove: (e) => {
+      if (!isTree || !`${e.active.id}`.startsWith(ROW_DND_PREFIX)) return;
+      const next =
+        e.over && e.over.id !== e.active.id && e.delta.x >= TREE_INDENT
+          ? `${e.over.id}`
+          : null;
+      if (next !== nestTargetId) setNestTargetId(next);
+    },
+    onDragEnd: (e) => {
+      endDrag();
+      handleDragEnd(e);
+    },
+    onDragCancel: endDrag,
+    modifiers: activeId ? getModifiersForDragId(`${activeId}`) : [],
+    // 드래그 중 스크롤 영역 가장자리에 가까워지면 자동 스크롤 (가상화된 행이 새로 렌더링됨)
+    autoScroll: { threshold: { x: 0.1, y: 0.15 }, acceleration: 15 },
+  };
+
+  return { dragBlockIds, isMultiDrag, getRowDropIndicator, dndContextProps };
+};
@@ -0,0 +1,115 @@
+import type { ColumnDef, RowSelectionState } from "@tanstack/react-table";
+import React from "react";
+import type { ImportResult } from "../components/ImportDialog";
+import { createDynamicColumn } from "../components/utils/dynamicColumns";
+import {
+  collectTreeRowIds,
+  type TreeAccessors,
+} from "../components/utils/tree";
+import {
+  createCommand,
+  stateChange,
+  type HistoryCommand,
+  type TableHistory,
+} from "./useHistory";
+
+type UseTableImportParams<TData> = {
+  // 없으면 가져오기를 제공하지 않는다. (서버 데이터 모드 포함)
+  createImportedRow?: (
+    values: Record<string, unknown>,
+    record: Record<string, unknown>,
+    usedRowIds: ReadonlySet<string>
+  ) => TData;
+  data: TData[];
+  setData: (data: TData[]) => void;
+  treeAccessors: TreeAccessors<TData>;
+  dynamicColumns: ColumnDef<TData>[];
+  setDynamicColumns: (columns: ColumnDef<TData>[]) => void;
+  rowSelection: RowSelectionState;
+  setRowSelection: (rowSelection: RowSelectionState) => void;
+  history: TableHistory;
+  // 가져온 뒤 호출된다. (토스트의 Undo 에 command 를 쓴다)
+  onImported: (rowCount: number, command: HistoryCommand) => void;
+};
+
+// 📌 CSV / JSON 가져오기 (툴바의 파일 선택 또는 테이블 위로 끌어다 놓기)
+// importFile 이 있으면 ImportDialog 를 열고, 확인하면 새 컬럼과 행을 한 번에 되돌릴 수 있게 추가한다.
+export const useTableImport = <TData>({
+  createImportedRow,
+  data,
+  setData,
+  treeAccessors,
+  dynamicColumns,
+  setDynamicColumns,
+  rowSelection,
+  setRowSelection,
+  history,
+  onImported,
+}: UseTableImportParams<TData>) => {
+  const [importFile, setImportFile] = React.useState<File | null>(null);
+
+  const handleImport = ({
+    values,
+    records,
+    newColumns,
+    mode,
+  }: ImportResult) => {
+    if (!createImportedRow) return;
+    // 가져올 때마다 새로 모은다. 대체하면 사라질 행의 id 는 다시 써도 된다.
+    const keptRows = mode === "replace" ? [] : data;
+    const usedRowIds = collectTreeRowIds(keptRows, treeAccessors);
+    const importedRows = values.map((rowValues, index) => {
+      const row = createImportedRow(rowValues, records[index]!, usedRowIds);
+      usedRowIds.add(treeAccessors.getRowId(row, keptRows.length + index));
+      return row;
+    });
+    const command = createCommand(
+      "가져오기",
+      stateChange(setDynamicColumns, dynamicColumns, [
+        ...dynamicColumns,
+        ...newColumns.map((config) => createDynamicColumn<TData>(config)),
+      ]),
+      stateChange(
+        setData,
+        data,
+        mode === "replace" ? importedRows : [...data, ...importedRows]
+      ),
+      // 대체하면 사라진 행의 선택도 지운다.
+      stateChange(
+        setRowSelection,
+        rowSelection,
+        mode === "replace" ? {} : rowSelection
+      )
+    );
+    history.execute(command);
+    setImportFile(null);
+    onImported(importedRows.length, command);
+  };
+
+  // 스크롤 영역에 붙이는 파일 끌어다 놓기 핸들러
+  const dropZoneProps: React.HTMLAttributes<HTMLElement> = createImportedRow
+    ? {
+        onDragOver: (e) => {
+          if (e.dataTransfer.types.includes("Files")) {
+            e.preventDefault();
+            e.dataTransfer.dropEffect = "copy";
+          }
+        },
+        onDrop: (e) => {
+          const file = e.dataTransfer.files[0];
+          if (!file) return;
+          e.preventDefault();
+          setImportFile(file);
+        },
+      }
+    : {};
+
+  return {
+    importFile,
+    // 가져오기를 제공하지 않으면 undefined (툴바에 Import 버튼을 그리지 않는다)
+    openImportFile: createImportedRow ? setImportFile : undefined,
+    closeImport: () => setImportFile(null),
+    handleImport,
+    dropZoneProps,
+  };
+};
@@ -0,0 +1,160 @@
+import type {
+  ColumnDef,
+  ColumnFiltersState,
+  ColumnPinningState,
+  ColumnSizingState,
+  GroupingState,
+  RowSelectionState,
+  SortingState,
+  VisibilityState,
+} from "@tanstack/react-table";
+import React from "react";
+import type { ColumnAggregationState, TableView } from "../components/types";
+import {
+  loadTableState,
+  saveTableData,
+  saveTableState,
+  serializeColumns,
+  type PersistedTableState,
+} from "../components/utils/tablePersistence";
+
+// 연속 변경(드래그, 타이핑) 중에는 저장을 미룬다.
+const SAVE_DELAY_MS = 300;
+
+// 마지막 변경 후 SAVE_DELAY_MS 가 지나면 저장한다. 그 전에 페이지를 떠나면 바로 저장한다.
+const useDebouncedSave = (save: () => void) => {
+  React.useEffect(() => {
+    let pending = true;
+    const flush = () => {
+      if (!pending) return;
+      pending = false;
+      save();
+    };
+    const timer = window.setTimeout(flush, SAVE_DELAY_MS);
+    window.addEventListener("pagehide", flush);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener("pagehide", flush);
+    };
+  }, [save]);
+};
+
+type UseTablePersistenceParams<TData> = {
+  storageKey?: string; // 없으면 저장하지 않는다.
+  data: TData[];
+  columns: ColumnDef<TData>[];
+  columnSizing: ColumnSizingState;
+  columnPinning: ColumnPinningState;
+  columnVisibility: VisibilityState;
+  grouping: GroupingState;
+  columnAggregations: ColumnAggregationState;
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
+  rowSelection: RowSelectionState;
+  views: TableView[];
+  activeViewId: string | null;
+  // 마운트 시 저장된 상태가 있으면 호출된다.
+  onRestore: (state: PersistedTableState<TData>) => void;
+  // 읽기 / 저장 실패 - 연속으로 실패하면 첫 번째만 알린다.
+  onError?: (message: string) => void;
+};
+
+// 📌 테이블 상태를 localStorage 에 저장하고, 처음 마운트될 때 복원한다.
+// 레이아웃과 행 데이터는 따로 저장한다. (선택, 정렬 등이 바뀔 때 행 전체를 다시 직렬화하지 않도록)
+export const useTablePersistence = <TData>({
+  storageKey,
+  data,
+  columns,
+  columnSizing,
+  columnPinning,
+  columnVisibility,
+  grouping,
+  columnAggregations,
+  sorting,
+  columnFilters,
+  rowSelection,
+  views,
+  activeViewId,
+  onRestore,
+  onError,
+}: UseTablePersistenceParams<TData>) => {
+  const onRestoreRef = React.useRef(onRestore);
+  onRestoreRef.current = onRestore;
+  const onErrorRef = React.useRef(onError);
+  onErrorRef.current = onError;
+
+  // 실패를 알렸으면 성공할 때까지 다시 알리지 않는다.
+  const reportedErrorsRef = React.useRef(new Set<"layout" | "data">());
+  const report = React.useCallback(
+    (kind: "layout" | "data", message: string | null) => {
+      const reported = reportedErrorsRef.current;
+      if (message === null) {
+        reported.delete(kind);
+      } else if (!reported.has(kind)) {
+        reported.add(kind);
+        onErrorRef.current?.(message);
+      }
+    },
+    []
+  );
+
+  React.useEffect(() => {
+    if (!storageKey) return;
+    try {
+      const saved = loadTableState<TData>(storageKey);
+      if (saved) onRestoreRef.current(saved);
+    } catch {
+      onErrorRef.current?.("저장된 테이블 상태를 읽지 못했습니다");
+    }
+  }, [storageKey]);
+
+  const saveLayout = React.useCallback(() => {
+    if (!storageKey) return;
+    const serializedColumns = serializeColumns(columns);
+    const saved = saveTableState(storageKey, {
+      columns: serializedColumns,
+      columnOrder: serializedColumns.map((column) => column.id),
+      columnSizing,
+      columnPinning,
+      columnVisibility,
+      grouping,
+      columnAggregations,
+      sorting,
+      columnFilters,
+      rowSelection,
+      views,
+      activeViewId,
+    });
+    report("layout", saved ? null : "테이블 레이아웃을 저장하지 못했습니다");
+  }, [
+    storageKey,
+    columns,
+    columnSizing,
+    columnPinning,
+    columnVisibility,
+    grouping,
+    columnAggregations,
+    sorting,
+    columnFilters,
+    rowSelection,
+    views,
+    activeViewId,
+    report,
+  ]);
+
+  const saveData = React.useCallback(() => {
+    if (!storageKey) return;
+    const result = saveTableData(storageKey, data);
+    report(
+      "data",
+      result === "saved"
+        ? null
+        : result === "too-large"
+        ? "행이 많아 레이아웃만 저장합니다"
+        : "행 데이터를 저장하지 못했습니다"
+    );
+  }, [storageKey, data, report]);
+
+  useDebouncedSave(saveLayout);
+  useDebouncedSave(saveData);
+};
@@ -0,0 +1,150 @@
+import type {
+  ColumnDef,
+  ColumnFiltersState,
+  ColumnPinningState,
+  ColumnSizingState,
+  SortingState,
+  Table,
+  VisibilityState,
+} from "@tanstack/react-table";
+import type { TableView, TableViewState } from "../components/types";
+import {
+  getColumnDefId,
+  sortColumnsByOrder,
+} from "../components/utils/columnDef";
+import { isFilterValueOfVariant } from "../components/utils/filterFns";
+import { createCommand, stateChange, type TableHistory } from "./useHistory";
+
+type UseTableViewsParams<TData> = {
+  table: Table<TData>;
+  views: TableView[];
+  setViews: (views: TableView[]) => void;
+  activeViewId: string | null;
+  setActiveViewId: (viewId: string | null) => void;
+  dynamicColumns: ColumnDef<TData>[];
+  setDynamicColumns: (columns: ColumnDef<TData>[]) => void;
+  columnVisibility: VisibilityState;
+  setColumnVisibility: (columnVisibility: VisibilityState) => void;
+  columnSizing: ColumnSizingState;
+  setColumnSizing: (columnSizing: ColumnSizingState) => void;
+  // 드래그 핸들 컬럼을 넣지 않은 고정 상태
+  columnPinning: ColumnPinningState;
+  setColumnPinning: (columnPinning: ColumnPinningState) => void;
+  sorting: SortingState;
+  setSorting: (sorting: SortingState) => void;
+  columnFilters: ColumnFiltersState;
+  setColumnFilters: (columnFilters: ColumnFiltersState) => void;
+  history: TableHistory;
+};
+
+// 📌 저장된 보기 - 컬럼 구성(표시, 순서, 너비, 고정)과 정렬/필터를 묶어 저장하고 전환한다.
+// 행 데이터와 선택은 보기에 들어가지 않으므로 전환해도 바뀌지 않는다.
+// 보기 목록과 활성 보기는 저장 / 복원과 Reset layout 에도 쓰이므로 BasicTable 이 갖고, 여기서는 동작만 만든다.
+export const useTableViews = <TData>({
+  table,
+  views,
+  setViews,
+  activeViewId,
+  setActiveViewId,
+  dynamicColumns,
+  setDynamicColumns,
+  columnVisibility,
+  setColumnVisibility,
+  columnSizing,
+  setColumnSizing,
+  columnPinning,
+  setColumnPinning,
+  sorting,
+  setSorting,
+  columnFilters,
+  setColumnFilters,
+  history,
+}: UseTableViewsParams<TData>) => {
+  const getCurrentViewState = (): TableViewState => ({
+    columnVisibility,
+    columnOrder: dynamicColumns.map(getColumnDefId),
+    columnSizing,
+    columnPinning,
+    sorting,
+    columnFilters,
+  });
+
+  const applyView = (viewId: string) => {
+    const view = views.find((v) => v.id === viewId);
+    if (!view) return;
+    const { state } = view;
+    history.execute(
+      createCommand(
+        "보기 전환",
+        // 보기를 만든 뒤 추가된 컬럼은 뒤에 붙고, 삭제된 컬럼은 건너뛴다.
+        stateChange(
+          setDynamicColumns,
+          dynamicColumns,
+          sortColumnsByOrder(dynamicColumns, state.columnOrder)
+        ),
+        stateChange(
+          setColumnVisibility,
+          columnVisibility,
+          state.columnVisibility
+        ),
+        stateChange(setColumnSizing, columnSizing, state.columnSizing),
+        stateChange(setColumnPinning, columnPinning, state.columnPinning),
+        stateChange(setSorting, sorting, state.sorting),
+        // 보기를 만든 뒤 삭제되었거나 타입이 바뀐 컬럼의 필터는 버린다.
+        stateChange(
+          setColumnFilters,
+          columnFilters,
+          state.columnFilters.filter((filter) => {
+            const column = table.getColumn(filter.id);
+            return (
+              !!column &&
+              isFilterValueOfVariant(
+                column.columnDef.meta?.filterVariant ?? "text",
+                filter.value
+              )
+            );
+          })
+        ),
+        stateChange(setActiveViewId, activeViewId, viewId)
+      )
+    );
+  };
+
+  const createView = (name: string) => {
+    const view = {
+      id: crypto.randomUUID(),
+      name,
+      state: getCurrentViewState(),
+    };
+    setViews([...views, view]);
+    setActiveViewId(view.id);
+  };
+
+  const updateView = (viewId: string) => {
+    setViews(
+      views.map((v) =>
+        v.id === viewId ? { ...v, state: getCurrentViewState() } : v
+      )
+    );
+  };
+
+  const renameView = (viewId: string, name: string) => {
+    setViews(views.map((v) => (v.id === viewId ? { ...v, name } : v)));
+  };
+
+  const deleteView = (viewId: string) => {
+    setViews(views.filter((v) => v.id !== viewId));
+    if (activeViewId === viewId) setActiveViewId(null);
+  };
+
+  // 툴바 Views 메뉴에 그대로 넘긴다.
+  return {
+    views,
+    activeViewId,
+    onSelect: applyView,
+    onCreate: createView,
+    onUpdate: updateView,
+    onRename: renameView,
+    onDelete: deleteView,
+  };
+};